@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for a Slack incoming webhook, for testing outbound alerts
+ *
+ * Accepts POSTed JSON on any path, prints the message text and blocks, and keeps
+ * the last 100 messages for GET /messages (DELETE /messages clears them).
+ *
+ * Usage: node scripts/alert-webhook-sink.js
+ *        ALERTS_WEBHOOK_URL=http://localhost:3018/hooks/test yarn start:api
+ *
+ * Optional env:
+ *   PORT=3018          Port to listen on
+ *   FAIL_STATUS=500    Answer every POST with this status (to test retry of failed digests)
+ */
+
+import http from 'http';
+
+const PORT = parseInt(process.env.PORT || '3018', 10);
+const FAIL_STATUS = process.env.FAIL_STATUS ? parseInt(process.env.FAIL_STATUS, 10) : null;
+const MAX_MESSAGES = 100;
+
+const messages = [];
+
+// Render Slack blocks roughly as they'd appear in a channel
+const printMessage = (path, payload) => {
+  console.log(`\n📨 ${new Date().toISOString()} POST ${path}${payload.channel ? ` → ${payload.channel}` : ''}`);
+  if (!Array.isArray(payload.blocks)) {
+    console.log(payload.text);
+    return;
+  }
+  payload.blocks.forEach(block => {
+    if (block.type === 'header') console.log(`== ${block.text?.text} ==`);
+    else if (block.type === 'section') console.log(block.text?.text);
+  });
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/messages' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(messages, null, 2));
+    return;
+  }
+  if (req.url === '/messages' && req.method === 'DELETE') {
+    messages.length = 0;
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405);
+    res.end('method not allowed');
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      console.error(`❌ Invalid JSON posted to ${req.url}`);
+      res.writeHead(400);
+      res.end('invalid_payload');
+      return;
+    }
+    printMessage(req.url, payload);
+    messages.push({ receivedAt: new Date().toISOString(), path: req.url, payload });
+    if (messages.length > MAX_MESSAGES) messages.shift();
+
+    // Slack answers a plain "ok"
+    res.writeHead(FAIL_STATUS || 200, { 'Content-Type': 'text/plain' });
+    res.end(FAIL_STATUS ? 'simulated_failure' : 'ok');
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🪝 Alert webhook sink listening on http://localhost:${PORT}/ (GET /messages to inspect)`);
+  if (FAIL_STATUS) console.log(`   Answering every POST with ${FAIL_STATUS}`);
+});
@@ -27,12 +27,14 @@
 #   --prod            Use production ROSA cluster (default)
 #   --url URL         Use custom URL
 #   --auth USER:PASS  Basic auth credentials (or set DASHBOARD_AUTH env var)
+#   --as NAME         Roster name to act as (or set DASHBOARD_MEMBER env var) - audit data needs lead or admin access
 #
 # Examples:
 #   ./scripts/audit-report.sh                      # Today on ROSA
 #   ./scripts/audit-report.sh --local --week       # Last week on localhost
 #   ./scripts/audit-report.sh --user "Dave Taylor" # Filter by user
 #   ./scripts/audit-report.sh --3weeks --summary   # 3 week summary
+#   ./scripts/audit-report.sh --as "Dave Taylor"   # Authenticate as a lead/admin on the roster
 #
 #   -h, --help        Show this help
 #
@@ -50,6 +52,7 @@ SUMMARY_ONLY=false
 JSON_OUTPUT=false
 PERIOD="today"
 AUTH_CREDS="${DASHBOARD_AUTH:-}"
+AS_MEMBER="${DASHBOARD_MEMBER:-}"
 
 # Colors for output
 RED='\033[0;31m'
@@ -124,8 +127,12 @@ while [[ $# -gt 0 ]]; do
       AUTH_CREDS="$2"
       shift 2
       ;;
+    --as)
+      AS_MEMBER="$2"
+      shift 2
+      ;;
     -h|--help)
-      head -40 "$0" | tail -38
+      head -42 "$0" | tail -40
       exit 0
       ;;
     *)
@@ -197,11 +204,16 @@ CURL_OPTS="-s"
 if [ -n "$AUTH_CREDS" ]; then
   CURL_OPTS="$CURL_OPTS -u $AUTH_CREDS"
 fi
+# Audit endpoints check the caller's roster access role (X-Team-Member)
+CURL_HEADERS=()
+if [ -n "$AS_MEMBER" ]; then
+  CURL_HEADERS=(-H "X-Team-Member: $AS_MEMBER")
+fi
 
 # Fetch the data
-STATS_RESPONSE=$(curl $CURL_OPTS "${BASE_URL}/api/audit/stats")
-LOGS_RESPONSE=$(curl $CURL_OPTS "${BASE_URL}/api/audit/logs?${QUERY}")
-USERS_RESPONSE=$(curl $CURL_OPTS "${BASE_URL}/api/audit/users")
+STATS_RESPONSE=$(curl $CURL_OPTS "${CURL_HEADERS[@]}" "${BASE_URL}/api/audit/stats")
+LOGS_RESPONSE=$(curl $CURL_OPTS "${CURL_HEADERS[@]}" "${BASE_URL}/api/audit/logs?${QUERY}")
+USERS_RESPONSE=$(curl $CURL_OPTS "${CURL_HEADERS[@]}" "${BASE_URL}/api/audit/users")
 
 # Check for errors
 if echo "$STATS_RESPONSE" | grep -q '"error"'; then
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Replay recorded GitHub webhook payloads against a running dashboard server
+ *
+ * Each file holds { "event": "<X-GitHub-Event>", "payload": { ... } } and is sent
+ * in filename order, signed with GITHUB_WEBHOOK_SECRET like GitHub does.
+ *
+ * Usage: GITHUB_WEBHOOK_SECRET=xxx node scripts/replay-github-webhooks.js [file-or-dir ...]
+ *
+ * Optional env:
+ *   DASHBOARD_URL=http://localhost:3017   Server to send to
+ *   REPO=owner/repo                       Override repository.full_name (must be a configured team repo)
+ *   PR=123                                Override the PR number in every payload
+ *   DELAY_MS=1500                         Pause between deliveries
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SECRET = process.env.GITHUB_WEBHOOK_SECRET;
+const DASHBOARD_URL = (process.env.DASHBOARD_URL || 'http://localhost:3017').replace(/\/$/, '');
+const REPO = process.env.REPO;
+const PR = process.env.PR ? parseInt(process.env.PR, 10) : null;
+const DELAY_MS = parseInt(process.env.DELAY_MS || '1500', 10);
+
+if (!SECRET) {
+  console.error('❌ GITHUB_WEBHOOK_SECRET environment variable is required (same value as the server)');
+  console.error('   Usage: GITHUB_WEBHOOK_SECRET=xxx node scripts/replay-github-webhooks.js [file-or-dir ...]');
+  process.exit(1);
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Expand directories to their .json files (sorted, so numbered fixtures replay in order)
+const collectFiles = (inputs) => inputs.flatMap(input => {
+  if (fs.statSync(input).isDirectory()) {
+    return fs.readdirSync(input)
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => path.join(input, name));
+  }
+  return [input];
+});
+
+// Point a recorded payload at another repo/PR
+const applyOverrides = (payload) => {
+  if (REPO && payload.repository) {
+    payload.repository.full_name = REPO;
+  }
+  if (PR) {
+    if (payload.number) payload.number = PR;
+    if (payload.pull_request) payload.pull_request.number = PR;
+    if (payload.issue) payload.issue.number = PR;
+    (payload.check_run?.pull_requests || []).forEach(pr => { pr.number = PR; });
+  }
+  return payload;
+};
+
+const replay = async (file) => {
+  const { event, payload } = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!event || !payload) {
+    console.warn(`⚠️  ${path.basename(file)}: expected { event, payload } - skipped`);
+    return false;
+  }
+
+  const body = JSON.stringify(applyOverrides(payload));
+  const signature = `sha256=${crypto.createHmac('sha256', SECRET).update(body).digest('hex')}`;
+
+  const response = await fetch(`${DASHBOARD_URL}/api/webhooks/github`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': event,
+      'X-GitHub-Delivery': crypto.randomUUID(),
+      'X-Hub-Signature-256': signature,
+      'User-Agent': 'GitHub-Hookshot/replay'
+    },
+    body
+  });
+  const result = await response.json().catch(() => ({}));
+
+  const label = `${event}${payload.action ? `.${payload.action}` : ''}`;
+  if (!response.ok) {
+    console.log(`❌ ${path.basename(file)} (${label}): ${response.status} ${result.error || ''}`);
+    return false;
+  }
+  console.log(`✅ ${path.basename(file)} (${label}): ${result.ignored ? 'ignored (repo not configured or not a PR event)' : `delivered to ${result.delivered} clients`}`);
+  return true;
+};
+
+const main = async () => {
+  const inputs = process.argv.slice(2);
+  const files = collectFiles(inputs.length > 0 ? inputs : [path.join(__dirname, 'webhook-payloads')]);
+
+  console.log(`📡 Replaying ${files.length} webhook payloads to ${DASHBOARD_URL}\n`);
+
+  let failed = 0;
+  for (let i = 0; i < files.length; i++) {
+    try {
+      if (!(await replay(files[i]))) failed++;
+    } catch (err) {
+      console.log(`❌ ${path.basename(files[i])}: ${err.message}`);
+      failed++;
+    }
+    if (i < files.length - 1) await sleep(DELAY_MS);
+  }
+
+  console.log(`\nDone: ${files.length - failed}/${files.length} delivered`);
+  process.exit(failed > 0 ? 1 : 0);
+};
+
+main();
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in SMTP server for testing digest emails
+ *
+ * Accepts any sender, recipient and credentials (no TLS), prints each message's
+ * envelope and plain-text part, and optionally saves the raw message as .eml.
+ *
+ * Usage: node scripts/smtp-sink.js
+ *        SMTP_HOST=localhost SMTP_PORT=2525 yarn start:api
+ *
+ * Optional env:
+ *   PORT=2525              Port to listen on
+ *   OUT_DIR=/tmp/digests   Save each message as <timestamp>-<recipient>.eml (open in a mail client to see the HTML)
+ *   REJECT_RCPT=true       Reject every recipient with 550 (to test failed sends)
+ */
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+
+const PORT = parseInt(process.env.PORT || '2525', 10);
+const OUT_DIR = process.env.OUT_DIR;
+const REJECT_RCPT = process.env.REJECT_RCPT === 'true';
+
+if (OUT_DIR) fs.mkdirSync(OUT_DIR, { recursive: true });
+
+// Decode the first text/plain part of a (possibly multipart, possibly base64) message
+const extractPlainText = (raw) => {
+  const parts = raw.split(/\r\n--[^\r\n]+\r\n/);
+  const plain = parts.find(part => /content-type:\s*text\/plain/i.test(part)) || raw;
+  const [headers, ...body] = plain.split('\r\n\r\n');
+  const content = body.join('\r\n\r\n').replace(/\r\n--[^\r\n]+--\r\n?$/, '');
+  return /content-transfer-encoding:\s*base64/i.test(headers)
+    ? Buffer.from(content.replace(/\s+/g, ''), 'base64').toString('utf8')
+    : content;
+};
+
+const saveMessage = (envelope, raw) => {
+  const subject = (raw.match(/^Subject: (.*)$/m) || [])[1] || '(no subject)';
+  console.log(`\n📧 ${new Date().toISOString()} ${envelope.from} → ${envelope.to.join(', ')}`);
+  console.log(`   Subject: ${subject}`);
+  console.log(extractPlainText(raw));
+  if (OUT_DIR) {
+    const file = path.join(OUT_DIR, `${Date.now()}-${envelope.to[0].replace(/[^\w.@-]/g, '_')}.eml`);
+    fs.writeFileSync(file, raw);
+    console.log(`   Saved ${file}`);
+  }
+};
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let inData = false;
+  let envelope = { from: null, to: [] };
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 localhost smtp-sink ready');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        // Undo dot-stuffing
+        saveMessage(envelope, buffer.slice(0, end).replace(/^\.\./gm, '.'));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        envelope = { from: null, to: [] };
+        reply('250 OK: message accepted');
+        continue;
+      }
+
+      const lineEnd = buffer.indexOf('\r\n');
+      if (lineEnd === -1) return;
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      const command = line.split(' ')[0].toUpperCase();
+
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250-localhost greets you');
+        reply('250 AUTH PLAIN LOGIN');
+      } else if (command === 'AUTH') {
+        reply('235 Authentication successful');
+      } else if (command === 'MAIL') {
+        envelope.from = (line.match(/<([^>]*)>/) || [])[1] || '';
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        if (REJECT_RCPT) {
+          reply('550 Mailbox unavailable');
+        } else {
+          envelope.to.push((line.match(/<([^>]*)>/) || [])[1] || '');
+          reply('250 OK');
+        }
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        envelope = { from: null, to: [] };
+        reply('250 OK');
+      } else if (command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+        return;
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', (err) => console.error('❌ Connection error:', err.message));
+});
+
+server.listen(PORT, () => {
+  console.log(`📭 SMTP sink listening on localhost:${PORT}${OUT_DIR ? ` (saving to ${OUT_DIR})` : ''}`);
+});
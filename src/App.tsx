@@ -5,13 +5,15 @@ import Header from './components/Header';
 import SplitPanel from './components/SplitPanel';
 import SettingsModal from './components/SettingsModal';
 import FirstRunIdentityModal from './components/FirstRunIdentityModal';
+import { fetchCurrentIdentity } from './hooks/useApiQueries';
+import type { CurrentIdentity } from './hooks/useApiQueries';
 import jiraLogo from './assets/jiraLogo.png';
 import githubIcon from './assets/githubIcon.png';
 import unleashIcon from './assets/unleash.png';
 import './styles/App.css';
 
 // Tab types for the application
-export type TabType = 'my-sprint-jiras' | 'my-code-reviews' | 'my-prs' | 'reviewers' | 'feature-flags' | 'doc-links' | 'epics';
+export type TabType = 'my-sprint-jiras' | 'team-sprint-board' | 'my-code-reviews' | 'my-prs' | 'reviewers' | 'feature-flags' | 'doc-links' | 'epics' | 'sprint-report' | 'cycle-time' | 'pr-metrics' | 'standup' | 'change-log';
 export type PrimaryTabType = 'jira' | 'github' | 'other';
 export type QuickFindType = 'jira' | 'pr';
 
@@ -33,6 +35,18 @@ const moreIcon = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' v
 // Link/chain icon for Doc Links tab (scaled down with padding to match other icons)
 const linkIcon = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32' fill='none' stroke='%239ca3af' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cg transform='translate(4,4) scale(1)'%3E%3Cpath d='M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71'/%3E%3Cpath d='M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71'/%3E%3C/g%3E%3C/svg%3E";
 
+// Line-chart icon for Sprint Report tab
+const chartIcon = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32' fill='none' stroke='%239ca3af' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cg transform='translate(4,4)'%3E%3Cpath d='M3 3v18h18'/%3E%3Cpath d='M7 7l4 5 3-2 5 6'/%3E%3C/g%3E%3C/svg%3E";
+
+// Stopwatch icon for Cycle Time tab
+const stopwatchIcon = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32' fill='none' stroke='%239ca3af' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cg transform='translate(4,4)'%3E%3Ccircle cx='12' cy='13' r='8'/%3E%3Cpath d='M12 9v4l2 2'/%3E%3Cpath d='M10 2h4'/%3E%3C/g%3E%3C/svg%3E";
+
+// Speech-bubble icon for Standup tab
+const standupIcon = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32' fill='none' stroke='%239ca3af' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cg transform='translate(4,4)'%3E%3Cpath d='M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z'/%3E%3Cpath d='M7 8h10'/%3E%3Cpath d='M7 12h6'/%3E%3C/g%3E%3C/svg%3E";
+
+// Clipboard-list icon for Change Log tab
+const changeLogIcon = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 32 32' fill='none' stroke='%239ca3af' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cg transform='translate(4,4)'%3E%3Crect x='5' y='3' width='14' height='18' rx='2'/%3E%3Cpath d='M9 3V1h6v2'/%3E%3Cpath d='M9 10h6'/%3E%3Cpath d='M9 14h6'/%3E%3Cpath d='M9 18h3'/%3E%3C/g%3E%3C/svg%3E";
+
 // Primary tab configuration
 const primaryTabConfig = [
   { id: 'jira' as PrimaryTabType, label: 'JIRA', icon: jiraLogo },
@@ -44,16 +58,22 @@ const primaryTabConfig = [
 const secondaryTabConfig: Record<PrimaryTabType, Array<{ id: TabType; label: string; icon?: string }>> = {
   jira: [
     { id: 'my-sprint-jiras', label: 'My Sprint JIRAs' },
+    { id: 'team-sprint-board', label: 'Team Sprint' },
     { id: 'epics', label: 'Epics' }
   ],
   github: [
     { id: 'my-code-reviews', label: 'My Code Reviews' },
     { id: 'my-prs', label: 'My PRs' },
-    { id: 'reviewers', label: 'Reviewers' }
+    { id: 'reviewers', label: 'Reviewers' },
+    { id: 'pr-metrics', label: 'PR Metrics' }
   ],
   other: [
     { id: 'feature-flags', label: 'Feature Flags', icon: unleashIcon },
-    { id: 'doc-links', label: 'Doc Links', icon: linkIcon }
+    { id: 'doc-links', label: 'Doc Links', icon: linkIcon },
+    { id: 'sprint-report', label: 'Sprint Report', icon: chartIcon },
+    { id: 'cycle-time', label: 'Cycle Time', icon: stopwatchIcon },
+    { id: 'standup', label: 'Standup', icon: standupIcon },
+    { id: 'change-log', label: 'Change Log', icon: changeLogIcon }
   ]
 };
 
@@ -96,14 +116,41 @@ export default function App() {
   // First-run identity check
   const [showFirstRun, setShowFirstRun] = useState(false);
   const [identityChecked, setIdentityChecked] = useState(false);
+  const [trustedIdentity, setTrustedIdentity] = useState<CurrentIdentity | null>(null);
 
   useEffect(() => {
-    // Check if user has selected their identity
-    const storedIdentity = localStorage.getItem('ocmui_selected_team_member');
-    if (!storedIdentity) {
-      setShowFirstRun(true);
-    }
-    setIdentityChecked(true);
+    const checkIdentity = async () => {
+      // Check if user has selected their identity
+      let storedName: string | null = null;
+      try {
+        const storedIdentity = localStorage.getItem('ocmui_selected_team_member');
+        storedName = storedIdentity ? JSON.parse(storedIdentity).name || null : null;
+      } catch {
+        // Treat unreadable identity as missing
+      }
+
+      // Behind the SSO proxy the server already knows who this is (Phase 3.5)
+      try {
+        const me = await fetchCurrentIdentity();
+        if (me.trusted) {
+          setTrustedIdentity(me);
+          // The modal applies a new/changed SSO identity silently, or lets a signed-in newcomer add themselves
+          if (!me.member || me.member.name !== storedName) {
+            setShowFirstRun(true);
+          }
+          setIdentityChecked(true);
+          return;
+        }
+      } catch (error) {
+        console.warn('Identity check failed, falling back to the picker:', error);
+      }
+
+      if (!storedName) {
+        setShowFirstRun(true);
+      }
+      setIdentityChecked(true);
+    };
+    checkIdentity();
   }, []);
 
   const handleFirstRunComplete = () => {
@@ -174,6 +221,7 @@ export default function App() {
           <FirstRunIdentityModal 
             isOpen={showFirstRun} 
             onComplete={handleFirstRunComplete} 
+            trustedIdentity={trustedIdentity}
           />
         </div>
       </SettingsProvider>
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { useWriteAudit, useTeamConfig } from '../hooks/useApiQueries';
+import type { WriteAuditAction, WriteAuditEntry, WriteAuditFilters } from '../hooks/useApiQueries';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatRelativeDateInTimezone } from '../utils/formatting';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
+
+const ACTION_LABELS: Record<WriteAuditAction, string> = {
+  'jira.updateField': 'JIRA field',
+  'jira.transition': 'JIRA status',
+  'jira.comment': 'JIRA comment',
+  'github.reply': 'PR reply',
+  'github.resolveThread': 'PR thread resolved',
+  'github.unresolveThread': 'PR thread reopened',
+  'github.review': 'PR review',
+  'roster.add': 'Roster add',
+  'roster.update': 'Roster edit',
+  'roster.delete': 'Roster delete',
+  'roster.reload': 'Roster reload'
+};
+
+const REVIEW_EVENT_LABELS: Record<string, string> = {
+  APPROVE: 'Approved',
+  REQUEST_CHANGES: 'Requested changes',
+  COMMENT: 'Commented'
+};
+
+const MAX_VALUE_LENGTH = 160;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// Roster edits store whole entries - only the fields that changed are worth showing
+const describeRosterUpdate = (before: unknown, after: unknown): Array<{ field: string; before: unknown; after: unknown }> => {
+  const prev = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]))
+    .filter(field => JSON.stringify(prev[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ field, before: prev[field], after: next[field] }));
+};
+
+const ChangeCell: React.FC<{ entry: WriteAuditEntry }> = ({ entry }) => {
+  if (entry.action === 'roster.update') {
+    const changes = describeRosterUpdate(entry.before, entry.after);
+    if (changes.length === 0) return <span className="report-empty">No changes</span>;
+    return (
+      <ul className="change-log-diff">
+        {changes.map(c => (
+          <li key={c.field}>
+            <strong>{c.field}:</strong> <span className="change-log-before">{formatValue(c.before)}</span> → <span className="change-log-after">{formatValue(c.after)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  if (entry.action === 'roster.reload') {
+    const before = (entry.before as string[] | null) || [];
+    const after = (entry.after as string[] | null) || [];
+    return <span>{before.length} → {after.length} members</span>;
+  }
+  if (entry.action === 'jira.comment' || entry.action === 'github.reply') {
+    return <span className="change-log-after">{formatValue(entry.after)}</span>;
+  }
+  if (entry.action === 'github.review') {
+    const review = (entry.after || {}) as { event?: string; body?: string };
+    return (
+      <span className="change-log-after">
+        {REVIEW_EVENT_LABELS[review.event || ''] || review.event}{review.body ? `: ${formatValue(review.body)}` : ''}
+      </span>
+    );
+  }
+  if (entry.action === 'github.resolveThread' || entry.action === 'github.unresolveThread') {
+    const state = (resolved: unknown) => (resolved ? 'resolved' : 'open');
+    return <span><span className="change-log-before">{state(entry.before)}</span> → <span className="change-log-after">{state(entry.after)}</span></span>;
+  }
+  if (entry.action === 'jira.transition' && entry.transitionFields) {
+    return (
+      <span>
+        <span className="change-log-before">{formatValue(entry.before)}</span> → <span className="change-log-after">{formatValue(entry.after)}</span>
+        <ul className="change-log-diff">
+          {Object.entries(entry.transitionFields).map(([field, value]) => (
+            <li key={field}><strong>{field}:</strong> {formatValue(value)}</li>
+          ))}
+        </ul>
+      </span>
+    );
+  }
+  if (entry.action === 'roster.add' || entry.action === 'roster.delete') {
+    return <span className="change-log-after">{formatValue(entry.action === 'roster.add' ? entry.after : entry.before)}</span>;
+  }
+  return (
+    <span>
+      <span className="change-log-before">{formatValue(entry.before)}</span> → <span className="change-log-after">{formatValue(entry.after)}</span>
+    </span>
+  );
+};
+
+const ChangeLogPanel: React.FC = () => {
+  const [filters, setFilters] = useState<WriteAuditFilters>({});
+  const [issueInput, setIssueInput] = useState('');
+  const { userPreferences } = useSettings();
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const { data, isLoading, error, refetch, isFetching } = useWriteAudit(filters);
+
+  const applyIssueFilter = () => setFilters(f => ({ ...f, issue: issueInput.trim().toUpperCase() || undefined }));
+
+  const header = (
+    <div className="panel-header">
+      <h2>Change Log</h2>
+      <div className="header-actions">
+        <select
+          className="report-select"
+          value={filters.member || ''}
+          onChange={(e) => setFilters(f => ({ ...f, member: e.target.value || undefined }))}
+        >
+          <option value="">All members</option>
+          {(data?.members || []).map(m => (
+            <option key={m} value={m}>{m}</option>
+          ))}
+        </select>
+        <select
+          className="report-select"
+          value={filters.action || ''}
+          onChange={(e) => setFilters(f => ({ ...f, action: e.target.value || undefined }))}
+        >
+          <option value="">All changes</option>
+          <option value="jira">JIRA edits</option>
+          <option value="github">GitHub reviews</option>
+          <option value="roster">Roster changes</option>
+        </select>
+        <input
+          className="change-log-issue-input"
+          type="text"
+          placeholder="Issue key"
+          value={issueInput}
+          onChange={(e) => setIssueInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') applyIssueFilter(); }}
+          onBlur={applyIssueFilter}
+        />
+        <button onClick={() => refetch()} className="refresh-btn" disabled={isFetching} title="Refresh data">
+          ↻
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="loading-state">
+          <div className="spinner" />
+          <p>Loading change log...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="error-state">
+          <p>❌ {error instanceof Error ? error.message : 'Failed to load change log'}</p>
+          <button onClick={() => refetch()} className="retry-btn">
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="report-panel">
+      {header}
+
+      <div className="report-hint">
+        JIRA edits, GitHub review actions and roster changes made through the dashboard. Writes without a personal token (🔑) go out as the shared server accounts, so this is where the real author is recorded.
+      </div>
+
+      {data.entries.length === 0 ? (
+        <p className="report-empty">No changes recorded{filters.member || filters.issue || filters.action ? ' for these filters' : ''}</p>
+      ) : (
+        <div className="report-table-scroll">
+          <table className="report-table change-log-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Who</th>
+                <th>Change</th>
+                <th>Target</th>
+                <th>Before → After</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.entries.map((entry, idx) => (
+                <tr key={`${entry.timestamp}-${idx}`} className={entry.status === 'failed' ? 'change-log-failed' : ''}>
+                  <td title={new Date(entry.timestamp).toLocaleString()}>
+                    {formatRelativeDateInTimezone(entry.timestamp, userPreferences.timezone)}
+                  </td>
+                  <td title={entry.ssoUser}>{entry.member || 'Unknown'}</td>
+                  <td>{ACTION_LABELS[entry.action] || entry.action}</td>
+                  <td>
+                    {entry.issueKey ? (
+                      <>
+                        <a href={getJiraBrowseUrl(teamConfig, entry.issueKey)} target="_blank" rel="noopener noreferrer" className="report-issue-link">
+                          {entry.issueKey}
+                        </a>
+                        <div className="change-log-field">{entry.fieldName || entry.field}</div>
+                      </>
+                    ) : (
+                      entry.target
+                    )}
+                  </td>
+                  <td className="change-log-values"><ChangeCell entry={entry} /></td>
+                  <td>
+                    {entry.status === 'success' ? '✅' : <span title={entry.error}>❌ Failed</span>}
+                    {entry.comment === 'added' && <span className="change-log-comment" title="Attribution comment added in JIRA"> 💬</span>}
+                    {entry.comment === 'failed' && <span className="change-log-comment" title="Attribution comment could not be added"> ⚠️</span>}
+                    {entry.credential === 'personal' && <span className="change-log-comment" title="Made with their personal token"> 🔑</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {data.total > data.entries.length && (
+        <div className="report-hint">Showing the latest {data.entries.length} of {data.total} changes</div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeLogPanel;
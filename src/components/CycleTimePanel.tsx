@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useCycleTime, useLastUpdatedFormat, useTeamConfig } from '../hooks/useApiQueries';
+import type { CycleTimeGroup } from '../hooks/useApiQueries';
+import { formatDurationHours } from '../utils/formatting';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
+
+type GroupBy = 'type' | 'assignee';
+type Metric = 'cycle' | 'lead';
+
+const WINDOW_OPTIONS = [30, 60, 90, 180, 365];
+
+const CycleTimePanel: React.FC = () => {
+  const [days, setDays] = useState(90);
+  const [groupBy, setGroupBy] = useState<GroupBy>('type');
+  const [metric, setMetric] = useState<Metric>('cycle');
+  const [showAllIssues, setShowAllIssues] = useState(false);
+  const { data, isLoading, error, refetch, isFetching, dataUpdatedAt } = useCycleTime(days);
+  const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+
+  const groups: CycleTimeGroup[] = useMemo(() => {
+    if (!data) return [];
+    return groupBy === 'type' ? data.byType : data.byAssignee;
+  }, [data, groupBy]);
+
+  // Chart data in days (easier to read than hours at team scale)
+  const chartData = useMemo(() => groups.map(g => ({
+    group: g.group,
+    p50: g[metric].p50 != null ? Math.round(g[metric].p50! / 24 * 10) / 10 : null,
+    p75: g[metric].p75 != null ? Math.round(g[metric].p75! / 24 * 10) / 10 : null,
+    p90: g[metric].p90 != null ? Math.round(g[metric].p90! / 24 * 10) / 10 : null
+  })), [groups, metric]);
+
+  // Statuses that aren't "done" are where work can stall
+  const workStatuses = useMemo(() => (data?.statuses || []).filter(s => s.category !== 'done'), [data]);
+
+  const sortedIssues = useMemo(() => {
+    if (!data) return [];
+    return [...data.issues].sort((a, b) => (b.cycleTimeHours ?? -1) - (a.cycleTimeHours ?? -1));
+  }, [data]);
+  const visibleIssues = showAllIssues ? sortedIssues : sortedIssues.slice(0, 25);
+
+  const renderIssueLink = (key: string) => (
+    <a href={getJiraBrowseUrl(teamConfig, key)} target="_blank" rel="noopener noreferrer" className="report-issue-link">
+      {key}
+    </a>
+  );
+
+  const header = (
+    <div className="panel-header">
+      <h2>Cycle Time</h2>
+      <div className="header-actions">
+        <select className="report-select" value={days} onChange={(e) => setDays(parseInt(e.target.value, 10))}>
+          {WINDOW_OPTIONS.map(d => (
+            <option key={d} value={d}>Resolved in last {d} days</option>
+          ))}
+        </select>
+        <span className="last-updated">
+          Updated: {lastUpdated}
+          {isFetching && <span className="refreshing"> (refreshing...)</span>}
+        </span>
+        <button onClick={() => refetch()} className="refresh-btn" disabled={isFetching} title="Refresh data">
+          ↻
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="loading-state">
+          <div className="spinner" />
+          <p>Computing cycle times...</p>
+          <p className="loading-hint">Replaying JIRA changelogs for every resolved ticket in the window</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="error-state">
+          <p>❌ {error instanceof Error ? error.message : 'Failed to load cycle times'}</p>
+          <button onClick={() => refetch()} className="retry-btn">
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="report-panel">
+      {header}
+
+      {/* Overall summary */}
+      <div className="report-summary">
+        <div className="report-summary-card">
+          <div className="report-summary-value">{data.overall.count}</div>
+          <div className="report-summary-label">Resolved tickets</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{formatDurationHours(data.overall.cycle.p50)}</div>
+          <div className="report-summary-label">Median cycle time</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{formatDurationHours(data.overall.cycle.p90)}</div>
+          <div className="report-summary-label">p90 cycle time</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{formatDurationHours(data.overall.lead.p50)}</div>
+          <div className="report-summary-label">Median lead time</div>
+        </div>
+        <div className="report-summary-card report-summary-carryover">
+          <div className="report-summary-value">{data.outliers.length}</div>
+          <div className="report-summary-label">Outliers</div>
+        </div>
+      </div>
+      <div className="report-hint ct-definitions">
+        Lead time: created → resolved. Cycle time: first move out of a "to do" status → resolved.
+      </div>
+
+      {/* Percentile distribution */}
+      <div className="report-section">
+        <div className="report-section-header">
+          <h3>{metric === 'cycle' ? 'Cycle' : 'Lead'} time percentiles by {groupBy === 'type' ? 'issue type' : 'assignee'} (days)</h3>
+          <div className="report-unit-toggle">
+            <button className={metric === 'cycle' ? 'active' : ''} onClick={() => setMetric('cycle')}>Cycle</button>
+            <button className={metric === 'lead' ? 'active' : ''} onClick={() => setMetric('lead')}>Lead</button>
+            <span className="ct-toggle-spacer" />
+            <button className={groupBy === 'type' ? 'active' : ''} onClick={() => setGroupBy('type')}>By type</button>
+            <button className={groupBy === 'assignee' ? 'active' : ''} onClick={() => setGroupBy('assignee')}>By assignee</button>
+          </div>
+        </div>
+        <div className="report-chart">
+          <ResponsiveContainer width="100%" height={Math.max(220, chartData.length * 28)}>
+            <BarChart data={chartData} layout="vertical" margin={{ top: 10, right: 20, bottom: 0, left: 20 }}>
+              <CartesianGrid stroke="#333" strokeDasharray="3 3" />
+              <XAxis type="number" stroke="#9ca3af" fontSize={11} />
+              <YAxis type="category" dataKey="group" stroke="#9ca3af" fontSize={11} width={140} />
+              <Tooltip contentStyle={{ background: '#1a1a1a', border: '1px solid #444', color: '#e5e7eb' }} />
+              <Legend />
+              <Bar dataKey="p50" name="p50" fill="#22c55e" />
+              <Bar dataKey="p75" name="p75" fill="#f59e0b" />
+              <Bar dataKey="p90" name="p90" fill="#ef4444" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Average time in each status per group */}
+      <div className="report-section">
+        <h3>Average time in status by {groupBy === 'type' ? 'issue type' : 'assignee'}</h3>
+        <div className="report-table-scroll">
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>{groupBy === 'type' ? 'Type' : 'Assignee'}</th>
+                <th className="num-col">Tickets</th>
+                {workStatuses.map(s => (
+                  <th key={s.name} className="num-col">{s.name}</th>
+                ))}
+                <th className="num-col">Cycle p50</th>
+                <th className="num-col">Lead p50</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(g => (
+                <tr key={g.group}>
+                  <td>{g.group}</td>
+                  <td className="num-col">{g.count}</td>
+                  {workStatuses.map(s => (
+                    <td key={s.name} className="num-col">{formatDurationHours(g.avgTimeInStatus[s.name])}</td>
+                  ))}
+                  <td className="num-col">{formatDurationHours(g.cycle.p50)}</td>
+                  <td className="num-col">{formatDurationHours(g.lead.p50)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Outliers */}
+      <div className="report-section">
+        <h3>Outliers — cycle time above their type's p90 ({data.outliers.length})</h3>
+        {data.outliers.length > 0 ? (
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>Key</th>
+                <th>Summary</th>
+                <th>Type</th>
+                <th>Assignee</th>
+                <th className="num-col">Cycle time</th>
+                <th className="num-col">Type p90</th>
+                <th>Stalled longest in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.outliers.map(o => (
+                <tr key={o.key}>
+                  <td>{renderIssueLink(o.key)}</td>
+                  <td className="report-summary-cell">{o.summary}</td>
+                  <td>{o.type}</td>
+                  <td>{o.assignee}</td>
+                  <td className="num-col ct-outlier-value">{formatDurationHours(o.cycleTimeHours)}</td>
+                  <td className="num-col">{formatDurationHours(o.typeP90Hours)}</td>
+                  <td>{o.longestStatus ? `${o.longestStatus} (${formatDurationHours(o.longestStatusHours)})` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="report-empty">No outliers in this window</p>
+        )}
+      </div>
+
+      {/* Per-ticket breakdown */}
+      <div className="report-section">
+        <h3>Per-ticket time in status ({sortedIssues.length})</h3>
+        <div className="report-table-scroll">
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>Key</th>
+                <th>Summary</th>
+                <th>Assignee</th>
+                {workStatuses.map(s => (
+                  <th key={s.name} className="num-col">{s.name}</th>
+                ))}
+                <th className="num-col">Cycle</th>
+                <th className="num-col">Lead</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleIssues.map(issue => (
+                <tr key={issue.key}>
+                  <td>{renderIssueLink(issue.key)}</td>
+                  <td className="report-summary-cell">{issue.summary}</td>
+                  <td>{issue.assignee}</td>
+                  {workStatuses.map(s => (
+                    <td key={s.name} className="num-col">{formatDurationHours(issue.timeInStatusHours[s.name])}</td>
+                  ))}
+                  <td className="num-col">{formatDurationHours(issue.cycleTimeHours)}</td>
+                  <td className="num-col">{formatDurationHours(issue.leadTimeHours)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {sortedIssues.length > 25 && (
+          <button className="report-show-all-btn" onClick={() => setShowAllIssues(!showAllIssues)}>
+            {showAllIssues ? 'Show top 25' : `Show all ${sortedIssues.length}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CycleTimePanel;
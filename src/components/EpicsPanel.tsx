@@ -1,10 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { useEpics, useJiraTicket, useJiraChildIssues, useUpdateJiraField, useLastUpdatedFormat } from '../hooks/useApiQueries';
+import { useEpics, useJiraTicket, useJiraChildIssues, useUpdateJiraField, useLastUpdatedFormat, useTeamConfig, useTeamPermissions } from '../hooks/useApiQueries';
 import { PriorityIcon } from '../utils/priorityIcons';
-
-// Custom field IDs
-const MARKETING_IMPACT_NOTES_FIELD = 'customfield_12319289';
-const TARGET_END_FIELD = 'customfield_12313942';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
 
 // Edit Marketing Impact Notes Modal
 interface EditNotesModalProps {
@@ -260,6 +257,7 @@ const formatLastUpdatedShort = (dateStr: string | null, updatedBy: string | null
 // Child issues row component
 const EpicChildIssues: React.FC<{ parentKey: string }> = ({ parentKey }) => {
   const { data, isLoading, error } = useJiraChildIssues(parentKey);
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
 
   if (isLoading) return <div className="epics-children-loading">Loading child issues...</div>;
   if (error) return <div className="epics-children-error">Failed to load child issues</div>;
@@ -297,7 +295,7 @@ const EpicChildIssues: React.FC<{ parentKey: string }> = ({ parentKey }) => {
               <tr key={issue.key} className={isClosed ? 'epics-child-closed' : ''}>
                 <td className="epics-child-key">
                   <a
-                    href={`https://issues.redhat.com/browse/${issue.key}`}
+                    href={getJiraBrowseUrl(teamConfig, issue.key)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="epics-link"
@@ -338,6 +336,7 @@ const EpicChildIssues: React.FC<{ parentKey: string }> = ({ parentKey }) => {
 const ParentInfo: React.FC<{ parentKey: string | null; featureKey: string | null }> = ({ parentKey, featureKey }) => {
   const effectiveKey = featureKey || parentKey;
   const { data, isLoading } = useJiraTicket(effectiveKey || '');
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
   
   if (!effectiveKey) return <span className="epics-no-parent">—</span>;
   if (isLoading) return <span className="epics-parent-loading">...</span>;
@@ -353,7 +352,7 @@ const ParentInfo: React.FC<{ parentKey: string | null; featureKey: string | null
   return (
     <div className="epics-parent-info">
       <a
-        href={`https://issues.redhat.com/browse/${effectiveKey}`}
+        href={getJiraBrowseUrl(teamConfig, effectiveKey)}
         target="_blank"
         rel="noopener noreferrer"
         className="epics-link"
@@ -506,8 +505,13 @@ const EpicsPanel: React.FC = () => {
   const { data, isLoading, error, refetch, dataUpdatedAt, isFetching } = useEpics(filter);
   const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
   
-  // Mutation for updating fields
+  // Custom field IDs and JIRA instance come from the shared team config
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const { marketingImpactNotes: MARKETING_IMPACT_NOTES_FIELD, targetEnd: TARGET_END_FIELD } = teamConfig.jira.customFields;
+  
+  // Mutation for updating fields (viewers can't write to JIRA, so their edit buttons are hidden)
   const updateFieldMutation = useUpdateJiraField();
+  const canWriteJira = useTeamPermissions().can('jira:write');
 
   // Handle column resize
   const handleResizeStart = useCallback((column: string, e: React.MouseEvent) => {
@@ -733,7 +737,7 @@ const EpicsPanel: React.FC = () => {
       {/* Header */}
       <div className="epics-header">
         <div className="epics-header-title">
-          <h2>OCMUI Team - Active Epics</h2>
+          <h2>{teamConfig.teamName} Team - Active Epics</h2>
           <span className="epics-count">{sortedEpics.length} epics</span>
         </div>
         <div className="epics-header-actions">
@@ -926,7 +930,7 @@ const EpicsPanel: React.FC = () => {
                       </td>
                       <td className="epics-cell-key">
                         <a
-                          href={`https://issues.redhat.com/browse/${epic.key}`}
+                          href={getJiraBrowseUrl(teamConfig, epic.key)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="epics-link epics-key-link"
@@ -965,13 +969,15 @@ const EpicsPanel: React.FC = () => {
                             <span style={{ color: targetEndColor || undefined }}>
                               {formatDate(epic.targetEnd)}
                             </span>
-                            <button
-                              className="epics-edit-date-btn"
-                              onClick={() => openEditDateModal(epic.key, epic.targetEnd)}
-                              title="Edit Target End Date"
-                            >
-                              ✏️
-                            </button>
+                            {canWriteJira && (
+                              <button
+                                className="epics-edit-date-btn"
+                                onClick={() => openEditDateModal(epic.key, epic.targetEnd)}
+                                title="Edit Target End Date"
+                              >
+                                ✏️
+                              </button>
+                            )}
                           </div>
                           <ParentTargetEnd parentKey={epic.parentKey} featureKey={epic.featureKey} />
                         </div>
@@ -997,13 +1003,15 @@ const EpicsPanel: React.FC = () => {
                             <div className="epics-notes-content">
                               {epic.marketingImpactNotes || '—'}
                             </div>
-                            <button
-                              className="epics-edit-notes-btn"
-                              onClick={() => openEditNotesModal(epic.key, epic.marketingImpactNotes || '')}
-                              title="Edit Marketing Impact Notes"
-                            >
-                              ✏️
-                            </button>
+                            {canWriteJira && (
+                              <button
+                                className="epics-edit-notes-btn"
+                                onClick={() => openEditNotesModal(epic.key, epic.marketingImpactNotes || '')}
+                                title="Edit Marketing Impact Notes"
+                              >
+                                ✏️
+                              </button>
+                            )}
                           </div>
                         </td>
                       )}
@@ -1013,13 +1021,15 @@ const EpicsPanel: React.FC = () => {
                             <div className="epics-blocked-content">
                               {epic.blockedReason || '—'}
                             </div>
-                            <button
-                              className="epics-edit-notes-btn"
-                              onClick={() => openEditNotesModal(epic.key, epic.marketingImpactNotes || '')}
-                              title="Edit Marketing Impact Notes"
-                            >
-                              ✏️
-                            </button>
+                            {canWriteJira && (
+                              <button
+                                className="epics-edit-notes-btn"
+                                onClick={() => openEditNotesModal(epic.key, epic.marketingImpactNotes || '')}
+                                title="Edit Marketing Impact Notes"
+                              >
+                                ✏️
+                              </button>
+                            )}
                           </div>
                         </td>
                       )}
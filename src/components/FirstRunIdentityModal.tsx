@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useSettings } from '../contexts/SettingsContext';
 import { auditFetch, identifyUser } from '../utils/auditFetch';
+import type { CurrentIdentity } from '../hooks/useApiQueries';
 
 interface TeamMember {
   name: string;
@@ -14,16 +15,27 @@ interface TeamMember {
 interface FirstRunIdentityModalProps {
   isOpen: boolean;
   onComplete: () => void;
+  // Identity asserted by the SSO proxy (see /api/me): a roster member is applied without asking;
+  // a signed-in user who isn't on the roster yet goes straight to "Add Yourself" with their email
+  trustedIdentity?: CurrentIdentity | null;
 }
 
-const FirstRunIdentityModal: React.FC<FirstRunIdentityModalProps> = ({ isOpen, onComplete }) => {
+const FirstRunIdentityModal: React.FC<FirstRunIdentityModalProps> = ({ isOpen, onComplete, trustedIdentity }) => {
   const { updateUserPreferences, apiTokens, saveSettings } = useSettings();
+  const trustedEmail = trustedIdentity && !trustedIdentity.member ? trustedIdentity.email : null;
   const [members, setMembers] = useState<TeamMember[]>([]);
   const [searchFilter, setSearchFilter] = useState('');
   const [selectedMember, setSelectedMember] = useState<TeamMember | null>(null);
-  const [isAddingNew, setIsAddingNew] = useState(false);
-  const [newMember, setNewMember] = useState<TeamMember>({ name: '', role: '', tz: '', github: '', jira: '' });
+  const [isAddingNew, setIsAddingNew] = useState(!!trustedEmail);
+  const [newMember, setNewMember] = useState<TeamMember>({
+    name: '',
+    role: '',
+    tz: trustedEmail ? Intl.DateTimeFormat().resolvedOptions().timeZone : '',
+    github: '',
+    jira: trustedEmail || ''
+  });
   const [loading, setLoading] = useState(true);
+  const trustedApplied = useRef(false);
 
   // Load members on mount
   useEffect(() => {
@@ -101,39 +113,50 @@ const FirstRunIdentityModal: React.FC<FirstRunIdentityModalProps> = ({ isOpen, o
     setIsAddingNew(false);
   };
 
-  const handleConfirmSelection = async () => {
-    if (!selectedMember) return;
-
+  const applyIdentity = useCallback(async (member: TeamMember) => {
     // Set timezone
-    updateUserPreferences({ timezone: selectedMember.tz });
+    updateUserPreferences({ timezone: member.tz });
 
     // Store identity
     localStorage.setItem('ocmui_selected_team_member', JSON.stringify({
-      name: selectedMember.name,
-      timezone: selectedMember.tz,
-      github: selectedMember.github,
-      jira: selectedMember.jira
+      name: member.name,
+      timezone: member.tz,
+      github: member.github,
+      jira: member.jira
     }));
 
     // Propagate github/jira to Settings if available
-    if (selectedMember.github || selectedMember.jira) {
+    if (member.github || member.jira) {
       const updatedTokens = { ...apiTokens };
-      if (selectedMember.github) {
-        updatedTokens.githubUsername = selectedMember.github;
+      if (member.github) {
+        updatedTokens.githubUsername = member.github;
       }
-      if (selectedMember.jira) {
-        updatedTokens.jiraUsername = selectedMember.jira;
+      if (member.jira) {
+        updatedTokens.jiraUsername = member.jira;
       }
       saveSettings(updatedTokens);
     }
 
     // Log the user identification for audit trail
-    await identifyUser(selectedMember.name);
+    await identifyUser(member.name);
 
-    console.log(`✅ First-run identity set: ${selectedMember.name}`);
+    console.log(`✅ First-run identity set: ${member.name}`);
     onComplete();
+  }, [updateUserPreferences, apiTokens, saveSettings, onComplete]);
+
+  const handleConfirmSelection = async () => {
+    if (selectedMember) await applyIdentity(selectedMember);
   };
 
+  // Known to the SSO proxy - nothing to ask
+  useEffect(() => {
+    if (isOpen && trustedIdentity?.member && !trustedApplied.current) {
+      trustedApplied.current = true;
+      console.log(`🔐 Identity from SSO: ${trustedIdentity.email || trustedIdentity.user} → ${trustedIdentity.member.name}`);
+      applyIdentity(trustedIdentity.member);
+    }
+  }, [isOpen, trustedIdentity, applyIdentity]);
+
   const handleAddNewMember = () => {
     setIsAddingNew(true);
     setSelectedMember(null);
@@ -143,7 +166,7 @@ const FirstRunIdentityModal: React.FC<FirstRunIdentityModalProps> = ({ isOpen, o
       role: '', 
       tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
       github: '',
-      jira: ''
+      jira: trustedEmail || ''
     });
   };
 
@@ -195,14 +218,18 @@ const FirstRunIdentityModal: React.FC<FirstRunIdentityModalProps> = ({ isOpen, o
     setIsAddingNew(false);
   };
 
-  if (!isOpen) return null;
+  if (!isOpen || trustedIdentity?.member) return null;
 
   return createPortal(
     <div className="first-run-modal-backdrop">
       <div className="first-run-modal-content">
         <div className="first-run-modal-header">
           <h2>👋 Welcome to OCMUI Team Dashboard</h2>
-          <p>Please select yourself from the team roster to personalize your experience.</p>
+          {trustedEmail ? (
+            <p>You're signed in as <strong>{trustedEmail}</strong>, which isn't on the team roster yet - add yourself to continue.</p>
+          ) : (
+            <p>Please select yourself from the team roster to personalize your experience.</p>
+          )}
         </div>
 
         {loading ? (
@@ -278,6 +305,8 @@ const FirstRunIdentityModal: React.FC<FirstRunIdentityModalProps> = ({ isOpen, o
                     value={newMember.jira || ''}
                     onChange={(e) => setNewMember(prev => ({ ...prev, jira: e.target.value }))}
                     maxLength={60}
+                    readOnly={!!trustedEmail}
+                    title={trustedEmail ? 'From your SSO sign-in' : undefined}
                   />
                 </div>
                 <div className="first-run-form-actions">
@@ -1,7 +1,18 @@
 import React, { useState } from 'react';
 import { useSettings } from '../contexts/SettingsContext';
+import {
+  useTeamConfig,
+  useGitHubRateLimit,
+  useLiveUpdates,
+  useDesktopNotifications,
+  useTeamPermissions,
+  useMemberCredentials,
+  getCredentialsNeedingRelink
+} from '../hooks/useApiQueries';
+import { DEFAULT_TEAM_CONFIG } from '../utils/teamConfig';
 import NavigationTabs from './NavigationTabs';
 import QuickFindBar from './QuickFindBar';
+import NotificationInbox from './NotificationInbox';
 import TimeboardModal from './TimeboardModal';
 import type { TabType, PrimaryTabType } from '../App';
 import ocmuiLogo from '../assets/icon48.png';
@@ -33,14 +44,29 @@ const Header: React.FC<HeaderProps> = ({
 }) => {
   const { openSettingsModal, isConfigured } = useSettings();
   const [isTimeboardModalOpen, setIsTimeboardModalOpen] = useState(false);
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const { data: rateLimit } = useGitHubRateLimit();
+  const coreQuota = rateLimit?.resources.core;
+  const liveStatus = useLiveUpdates();
+  const { can } = useTeamPermissions();
+  const { data: credentials } = useMemberCredentials(can('github:write') || can('jira:write'));
+  const relinkServices = getCredentialsNeedingRelink(credentials);
+  const relinkExpired = relinkServices.some(service => credentials?.[service].status !== 'expiring');
+  useDesktopNotifications((item) => {
+    if (item.target.kind === 'pr') {
+      onQuickFind('pr', `${item.target.repo}#${item.target.number}`);
+    } else {
+      onQuickFind('jira', item.target.key);
+    }
+  });
 
   return (
     <>
       <div className="header">
         <div className="header-left">
           <div className="logo">
-            <img src={ocmuiLogo} alt="OCMUI Logo" className="logo-icon" />
-            <h1 className="logo-text">My OCMUI Dashboard</h1>
+            <img src={ocmuiLogo} alt={`${teamConfig.teamName} Logo`} className="logo-icon" />
+            <h1 className="logo-text">My {teamConfig.teamName} Dashboard</h1>
           </div>
           <QuickFindBar onFind={onQuickFind} />
         </div>
@@ -57,6 +83,32 @@ const Header: React.FC<HeaderProps> = ({
         </div>
         
         <div className="header-right">
+          {liveStatus === 'live' && (
+            <span
+              className="live-updates-indicator"
+              title="Live updates: new reviews, comments and checks appear as GitHub reports them"
+            >
+              ● Live
+            </span>
+          )}
+          {rateLimit?.degraded && (
+            <span
+              className="github-degraded-indicator"
+              title={`GitHub data may be stale:\n${rateLimit.reasons.join('\n')}${coreQuota ? `\n\nQuota: ${coreQuota.remaining}/${coreQuota.limit}, resets ${new Date(coreQuota.resetAt).toLocaleTimeString()}` : ''}`}
+            >
+              ⚠️ GitHub degraded
+            </span>
+          )}
+          {relinkServices.length > 0 && (
+            <button
+              className={`credential-relink-indicator ${relinkExpired ? 'expired' : ''}`}
+              title={`${relinkExpired ? 'Changes you make will fail until you re-link' : 'Re-link before it expires'} - open Settings`}
+              onClick={openSettingsModal}
+            >
+              🔑 Re-link {relinkServices.map(service => (service === 'github' ? 'GitHub' : 'JIRA')).join(' & ')}
+            </button>
+          )}
+          <NotificationInbox onOpenItem={onQuickFind} />
           <button 
             className="timeboard-btn"
             title="Team Timeboard"
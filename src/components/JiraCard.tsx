@@ -4,7 +4,8 @@ import JiraDescription from './JiraDescription';
 import JiraComments from './JiraComments';
 import JiraChildIssues from './JiraChildIssues';
 import JiraHierarchyModal from './JiraHierarchyModal';
-import { useJiraTicket } from '../hooks/useApiQueries';
+import JiraStatusSelect from './JiraStatusSelect';
+import { useJiraTicket, useTeamConfig, useNotificationSeenState, useTeamPermissions } from '../hooks/useApiQueries';
 import { useSettings } from '../contexts/SettingsContext';
 import { formatJiraTimestamp } from '../utils/formatting';
 import { 
@@ -12,6 +13,7 @@ import {
   updateJiraCommentsLastViewed 
 } from '../utils/jiraCommentNotifications';
 import { PriorityIcon, getPriorityColor } from '../utils/priorityIcons';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
 
 interface JiraTicket {
   key: string;
@@ -33,13 +35,19 @@ interface JiraCardProps {
   onClick?: (ticket: JiraTicket) => void;
   expandMoreInfoByDefault?: boolean;
   isSelected?: boolean;
+  compact?: boolean; // Board mode: title + badges + assignee only, no per-card ticket fetch
 }
 
-const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDefault = false, isSelected = false }) => {
+const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDefault = false, isSelected = false, compact = false }) => {
   // Get full ticket data to access comments count (only if ticket exists and has key)
-  const { data: ticketData } = useJiraTicket(ticket?.key || '');
+  // Compact cards skip this - boards render dozens of cards at once
+  const { data: ticketData } = useJiraTicket(compact ? '' : ticket?.key || '');
   const { userPreferences } = useSettings();
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
   const [isHierarchyModalOpen, setIsHierarchyModalOpen] = useState(false);
+  const canWriteJira = useTeamPermissions().can('jira:write');
+  // Re-render the comments badge when read-state synced from the server arrives
+  useNotificationSeenState();
   useEffect(() => {
     // Lazy cleanup of old localStorage keys
     import('../utils/jiraCommentNotifications')
@@ -184,12 +192,15 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
     console.log(`📅 ${ticket.key} (${ticket.type}): duedate=${duedate}, formatted=${formattedDueDate}, color=${JSON.stringify(dueDateColorInfo)}`);
   }
   
+  // The ticket cache is updated optimistically on a status change, so prefer it over the list's copy
+  const status = ticketData?.ticket?.status || ticket.status;
+
   // Only show hierarchy button if the card has parent/epic/feature links
   const hasHierarchy = hasEpic || hasParent || hasFeature;
 
   return (
     <div 
-      className={`jira-card ${isSelected ? 'selected' : ''}`}
+      className={`jira-card ${isSelected ? 'selected' : ''} ${compact ? 'compact' : ''}`}
       onClick={handleCardClick}
       role={onClick ? "button" : undefined}
       tabIndex={onClick ? 0 : undefined}
@@ -197,7 +208,7 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
       <div className="jira-card-title">
         <span style={{ flex: 1, minWidth: 0 }}>
           <a 
-            href={`https://issues.redhat.com/browse/${ticket.key}`}
+            href={getJiraBrowseUrl(teamConfig, ticket.key)}
             target="_blank"
             rel="noopener noreferrer"
             className="jira-card-title-text"
@@ -238,14 +249,27 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
           <PriorityIcon priority={ticket.priority} />
           {toTitleCase(ticket.priority)}
         </span>
-        <span 
-          className="jira-badge jira-status" 
-          style={{ backgroundColor: getStatusColor(ticket.status), borderColor: getStatusColor(ticket.status) }}
-        >
-          {ticket.status.toUpperCase()}
-        </span>
+        {canWriteJira && !compact ? (
+          <JiraStatusSelect issueKey={ticket.key} status={status} color={getStatusColor(status)} />
+        ) : (
+          <span 
+            className="jira-badge jira-status" 
+            style={{ backgroundColor: getStatusColor(status), borderColor: getStatusColor(status) }}
+          >
+            {status.toUpperCase()}
+          </span>
+        )}
       </div>
-      
+
+      {compact ? (
+        <div className="jira-card-metadata">
+          <div className="jira-card-field">
+            <span className="jira-field-label">Assignee:</span>
+            <span className="jira-field-value">{ticket.assignee}</span>
+          </div>
+        </div>
+      ) : (
+      <>
       <div className="jira-card-metadata">
         <div className="jira-metadata-row">
           <div className="jira-card-field">
@@ -290,7 +314,7 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
             <span className="jira-field-label">Epic Link:</span>
             <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
               <a
-                href={`https://issues.redhat.com/browse/${epicKey}`}
+                href={getJiraBrowseUrl(teamConfig, epicKey!)}
                 target="_blank"
                 rel="noopener noreferrer"
                 onClick={(e) => e.stopPropagation()}
@@ -307,7 +331,7 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
             <span className="jira-field-label">Parent Link:</span>
             <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
               <a
-                href={`https://issues.redhat.com/browse/${parentKey}`}
+                href={getJiraBrowseUrl(teamConfig, parentKey!)}
                 target="_blank"
                 rel="noopener noreferrer"
                 onClick={(e) => e.stopPropagation()}
@@ -324,7 +348,7 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
             <span className="jira-field-label">Feature Link:</span>
             <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
               <a
-                href={`https://issues.redhat.com/browse/${featureKey}`}
+                href={getJiraBrowseUrl(teamConfig, featureKey!)}
                 target="_blank"
                 rel="noopener noreferrer"
                 onClick={(e) => e.stopPropagation()}
@@ -378,6 +402,8 @@ const JiraCard: React.FC<JiraCardProps> = ({ ticket, onClick, expandMoreInfoByDe
       >
         <JiraComments jiraKey={ticket.key} />
       </CollapsibleSection>
+      </>
+      )}
 
       {/* Hierarchy Modal */}
       <JiraHierarchyModal
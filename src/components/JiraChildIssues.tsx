@@ -1,5 +1,6 @@
 import React from 'react';
-import { useJiraChildIssues } from '../hooks/useApiQueries';
+import { useJiraChildIssues, useTeamConfig } from '../hooks/useApiQueries';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
 
 interface JiraChildIssuesProps {
   parentKey: string;
@@ -7,6 +8,7 @@ interface JiraChildIssuesProps {
 
 const JiraChildIssues: React.FC<JiraChildIssuesProps> = ({ parentKey }) => {
   const { data, isLoading, error } = useJiraChildIssues(parentKey);
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
 
   if (isLoading) return <div className="loading">Loading child issues...</div>;
   if (error) return <div className="error-state">Failed to load child issues</div>;
@@ -39,7 +41,7 @@ const JiraChildIssues: React.FC<JiraChildIssuesProps> = ({ parentKey }) => {
               <tr key={issue.key}>
                 <td style={{ padding: '4px 8px', maxWidth: 420 }}>
                   <a
-                    href={`https://issues.redhat.com/browse/${issue.key}`}
+                    href={getJiraBrowseUrl(teamConfig, issue.key)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="jira-link-value"
@@ -0,0 +1,162 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useAddJiraComment, useMemberCredentials, useTeamRoster } from '../hooks/useApiQueries';
+import type { RosterMember } from '../hooks/useApiQueries';
+import { parseJiraMarkdownSync } from '../utils/formatting';
+import { updateJiraCommentsLastViewed } from '../utils/jiraCommentNotifications';
+import { getTeamMemberIdentity } from '../utils/auditFetch';
+
+interface JiraCommentComposerProps {
+  jiraKey: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// "@que" right before the caret, at the start of the text or after whitespace
+const MENTION_PATTERN = /(^|\s)@([\w.-]*)$/;
+
+// Comment box for a JIRA ticket: wiki markup with a live preview rendered the same way as
+// existing comments, and @mention autocomplete from the roster's `jira` field. Posted as the member
+// when they linked a personal JIRA token in Settings, otherwise by the shared account with attribution.
+const JiraCommentComposer: React.FC<JiraCommentComposerProps> = ({ jiraKey }) => {
+  const [body, setBody] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { data: roster = [] } = useTeamRoster();
+  const addComment = useAddJiraComment();
+  const { data: credentials } = useMemberCredentials();
+  const memberName = getTeamMemberIdentity();
+  const jiraCredential = credentials?.jira;
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLowerCase();
+    return roster
+      .filter(m => m.jira && (m.name.toLowerCase().includes(query) || m.jira.toLowerCase().includes(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [roster, mentionQuery]);
+
+  const preview = useMemo(() => (body.trim() ? parseJiraMarkdownSync(body, jiraKey) : ''), [body, jiraKey]);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_PATTERN);
+    setMentionQuery(match ? match[2] : null);
+    setActiveSuggestion(0);
+  };
+
+  const insertMention = (member: RosterMember) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(MENTION_PATTERN, (_match, lead) => `${lead}[~${member.jira}] `);
+    const next = before + body.slice(caret);
+    setBody(next);
+    setMentionQuery(null);
+    // Put the caret after the inserted mention once React has re-rendered the textarea
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim() || addComment.isPending) return;
+    setError(null);
+    try {
+      await addComment.mutateAsync({ issueKey: jiraKey, body });
+      // Our own comment shouldn't light up the "new comments" badge
+      updateJiraCommentsLastViewed(jiraKey);
+      setBody('');
+      setMentionQuery(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion(i => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[activeSuggestion]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="jira-comment-composer" onClick={(e) => e.stopPropagation()}>
+      <div className="jira-comment-composer-input">
+        <textarea
+          ref={textareaRef}
+          rows={3}
+          placeholder="Add a comment (JIRA wiki markup, @ to mention a team member)"
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            setError(null);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          disabled={addComment.isPending}
+        />
+        {suggestions.length > 0 && (
+          <ul className="jira-mention-suggestions">
+            {suggestions.map((member, idx) => (
+              <li
+                key={member.name}
+                className={idx === activeSuggestion ? 'active' : ''}
+                // mousedown so the pick happens before the textarea's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+              >
+                <strong>{member.name}</strong>
+                <span>{member.jira}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {preview && (
+        <div className="jira-comment-preview">
+          <div className="jira-comment-preview-label">Preview</div>
+          <div className="markdown-container comment-body" dangerouslySetInnerHTML={{ __html: preview }} />
+        </div>
+      )}
+
+      {error && <div className="form-error">❌ {error}</div>}
+
+      <div className="jira-comment-composer-footer">
+        <small>
+          {!jiraCredential?.linked
+            ? `Posted by the shared JIRA account with "(via dashboard by ${memberName || 'you'})" appended`
+            : jiraCredential.status === 'ok' || jiraCredential.status === 'expiring'
+              ? `Posted as ${jiraCredential.login}`
+              : '⚠️ Your JIRA token has expired - re-link it in Settings to comment'}
+        </small>
+        <button onClick={handleSubmit} disabled={!body.trim() || addComment.isPending}>
+          {addComment.isPending ? 'Posting...' : 'Comment'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default JiraCommentComposer;
@@ -1,7 +1,7 @@
 import React from 'react';
-import { useJiraTicket } from '../hooks/useApiQueries';
+import { useJiraTicket, useTeamPermissions } from '../hooks/useApiQueries';
 import { parseJiraMarkdownSync } from '../utils/formatting';
-
+import JiraCommentComposer from './JiraCommentComposer';
 
 interface JiraCommentsProps {
   jiraKey: string;
@@ -9,6 +9,7 @@ interface JiraCommentsProps {
 
 const JiraComments: React.FC<JiraCommentsProps> = ({ jiraKey }) => {
   const { data, isLoading, error } = useJiraTicket(jiraKey);
+  const canComment = useTeamPermissions().can('jira:write');
 
   if (isLoading) {
     return <div className="loading">Loading comments...</div>;
@@ -40,33 +41,36 @@ const JiraComments: React.FC<JiraCommentsProps> = ({ jiraKey }) => {
   const sortedComments = [...(ticket.comments || [])].sort((a, b) => getRecentTime(b) - getRecentTime(a));
 
   return (
-    <div className="scrollable-content comments-content" style={{ maxHeight: "250px" }}>
-      {sortedComments.length > 0 ? (
-        <div className="comments-list">
-          {sortedComments.map((comment, index) => {
-            const createdTime = comment.created ? new Date(comment.created).getTime() : 0;
-            const updatedTime = comment.updated ? new Date(comment.updated).getTime() : createdTime;
-            const isEdited = updatedTime > createdTime;
-            const displayDate = updatedTime || createdTime;
-            return (
-            <div key={index} className="jira-comment">
-              <div className="comment-header">
-                <span className="comment-author">{comment.author}</span>
-                <span className="comment-date">{formatDate(displayDate)}{isEdited ? <span className="comment-edited"> (edited)</span> : null}</span>
+    <>
+      {canComment && <JiraCommentComposer jiraKey={jiraKey} />}
+      <div className="scrollable-content comments-content" style={{ maxHeight: "250px" }}>
+        {sortedComments.length > 0 ? (
+          <div className="comments-list">
+            {sortedComments.map((comment, index) => {
+              const createdTime = comment.created ? new Date(comment.created).getTime() : 0;
+              const updatedTime = comment.updated ? new Date(comment.updated).getTime() : createdTime;
+              const isEdited = updatedTime > createdTime;
+              const displayDate = updatedTime || createdTime;
+              return (
+              <div key={index} className="jira-comment">
+                <div className="comment-header">
+                  <span className="comment-author">{comment.author}</span>
+                  <span className="comment-date">{formatDate(displayDate)}{isEdited ? <span className="comment-edited"> (edited)</span> : null}</span>
+                </div>
+                <div 
+                  className="markdown-container comment-body"
+                  dangerouslySetInnerHTML={{ 
+                    __html: parseJiraMarkdownSync(comment.body || '', jiraKey, ticket.attachments)
+                  }}
+                />
               </div>
-              <div 
-                className="markdown-container comment-body"
-                dangerouslySetInnerHTML={{ 
-                  __html: parseJiraMarkdownSync(comment.body || '', jiraKey, ticket.attachments)
-                }}
-              />
-            </div>
-          );})}
-        </div>
-      ) : (
-        <div className="no-content">No comments available</div>
-      )}
-    </div>
+            );})}
+          </div>
+        ) : (
+          <div className="no-content">No comments available</div>
+        )}
+      </div>
+    </>
   );
 };
 
@@ -1,9 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { useJiraTicket } from '../hooks/useApiQueries';
+import { useJiraTicket, useTeamConfig } from '../hooks/useApiQueries';
 import { useSettings } from '../contexts/SettingsContext';
 import { formatJiraTimestamp } from '../utils/formatting';
 import { PriorityIcon, getPriorityColor } from '../utils/priorityIcons';
 import { auditFetch } from '../utils/auditFetch';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
 
 interface JiraTicket {
   key: string;
@@ -38,6 +39,7 @@ const JiraHierarchyModal: React.FC<JiraHierarchyModalProps> = ({ jiraKey, isOpen
   const [hierarchyChain, setHierarchyChain] = useState<JiraHierarchyNode[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const { userPreferences } = useSettings(); // apiTokens not needed - server provides JIRA token
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
 
   // Fetch the initial ticket
   const { data: initialTicketData } = useJiraTicket(jiraKey);
@@ -252,7 +254,7 @@ const JiraHierarchyModal: React.FC<JiraHierarchyModalProps> = ({ jiraKey, isOpen
                     {/* Title */}
                     <div className="hierarchy-node-header">
                       <a 
-                        href={`https://issues.redhat.com/browse/${node.ticket.key}`}
+                        href={getJiraBrowseUrl(teamConfig, node.ticket.key)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="hierarchy-node-title"
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useJiraTransitions, useTransitionJiraIssue } from '../hooks/useApiQueries';
+import type { JiraTransition, JiraTransitionField } from '../hooks/useApiQueries';
+
+interface JiraStatusSelectProps {
+  issueKey: string;
+  status: string;
+  color: string;
+}
+
+// JIRA expects option-like fields (resolution, select lists) as { id }, everything else as the raw value
+const toFieldValue = (field: JiraTransitionField, value: string) =>
+  field.allowedValues ? { id: value } : value;
+
+// Status badge that opens the issue's workflow transitions. Transitions with required
+// fields (e.g. resolution when closing) ask for them before anything is sent to JIRA.
+const JiraStatusSelect: React.FC<JiraStatusSelectProps> = ({ issueKey, status, color }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, setPending] = useState<JiraTransition | null>(null);
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data, isLoading, error } = useJiraTransitions(issueKey, isOpen);
+  const transitionMutation = useTransitionJiraIssue();
+
+  // Close when clicking anywhere outside the badge and its menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setPending(null);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setPending(null);
+    setFieldValues({});
+  };
+
+  const runTransition = (transition: JiraTransition, values: Record<string, string>) => {
+    const fields = Object.fromEntries(
+      transition.fields
+        .filter(f => values[f.id])
+        .map(f => [f.id, toFieldValue(f, values[f.id])])
+    );
+    close();
+    transitionMutation.mutate(
+      { issueKey, transition, fields },
+      {
+        onError: (err) => {
+          console.error(`Failed to move ${issueKey} to ${transition.to.name}:`, err);
+          alert(`Failed to change status of ${issueKey}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        },
+      }
+    );
+  };
+
+  const handleSelect = (transition: JiraTransition) => {
+    const required = transition.fields.filter(f => f.required);
+    if (required.length === 0) {
+      runTransition(transition, {});
+      return;
+    }
+    // Pre-select the first allowed value (usually "Done" for resolution)
+    setFieldValues(Object.fromEntries(required.map(f => [f.id, f.allowedValues?.[0]?.id || ''])));
+    setPending(transition);
+  };
+
+  const missingRequired = pending?.fields.some(f => f.required && !fieldValues[f.id]);
+
+  return (
+    <div className="jira-status-select" ref={containerRef} onClick={(e) => e.stopPropagation()}>
+      <button
+        className="jira-badge jira-status jira-status-button"
+        style={{ backgroundColor: color, borderColor: color }}
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        disabled={transitionMutation.isPending}
+        title="Change status"
+      >
+        {status.toUpperCase()}
+        <span className="jira-status-caret">{transitionMutation.isPending ? '…' : '▾'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="jira-status-menu">
+          {isLoading ? (
+            <div className="jira-status-menu-status">Loading transitions...</div>
+          ) : error ? (
+            <div className="jira-status-menu-status error">❌ {error instanceof Error ? error.message : 'Failed to load transitions'}</div>
+          ) : pending ? (
+            <div className="jira-status-fields">
+              <div className="jira-status-fields-title">{pending.name} → {pending.to.name}</div>
+              {pending.fields.filter(f => f.required).map(field => (
+                <label key={field.id}>
+                  {field.name}
+                  {field.allowedValues ? (
+                    <select
+                      value={fieldValues[field.id] || ''}
+                      onChange={(e) => setFieldValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    >
+                      {field.allowedValues.map(v => (
+                        <option key={v.id} value={v.id}>{v.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={fieldValues[field.id] || ''}
+                      onChange={(e) => setFieldValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    />
+                  )}
+                </label>
+              ))}
+              <div className="jira-status-fields-actions">
+                <button onClick={() => setPending(null)}>Back</button>
+                <button className="primary" disabled={missingRequired} onClick={() => runTransition(pending, fieldValues)}>
+                  Move
+                </button>
+              </div>
+            </div>
+          ) : !data || data.transitions.length === 0 ? (
+            <div className="jira-status-menu-status">No transitions available</div>
+          ) : (
+            <ul>
+              {data.transitions.map(t => (
+                <li key={t.id}>
+                  <button onClick={() => handleSelect(t)}>
+                    <span className={`jira-status-dot ${t.to.category || ''}`} />
+                    {t.to.name}
+                    {t.name.toLowerCase() !== t.to.name.toLowerCase() && <span className="jira-status-transition-name">{t.name}</span>}
+                    {t.fields.some(f => f.required) && <span className="jira-status-transition-name">…</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JiraStatusSelect;
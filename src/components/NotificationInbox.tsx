@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNotificationInbox, useMarkInboxRead } from '../hooks/useApiQueries';
+import type { NotificationInboxItem, NotificationInboxItemType } from '../hooks/useApiQueries';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatRelativeDateInTimezone } from '../utils/formatting';
+import { getTeamMemberIdentity } from '../utils/auditFetch';
+import type { QuickFindType } from './Header';
+
+interface NotificationInboxProps {
+  onOpenItem: (type: QuickFindType, value: string) => void;
+}
+
+const TYPE_ICONS: Record<NotificationInboxItemType, string> = {
+  review_requested: '👀',
+  review: '✅',
+  comment: '💬',
+  mention: '@',
+  ci_failure: '❌',
+  status_change: '🔀'
+};
+
+const NotificationInbox: React.FC<NotificationInboxProps> = ({ onOpenItem }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { userPreferences } = useSettings();
+  const { data, isLoading, error, refetch, isFetching } = useNotificationInbox();
+  const markRead = useMarkInboxRead();
+
+  // Close when clicking anywhere outside the bell and its dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const items = useMemo(
+    () => (data?.items || []).filter(item => !unreadOnly || !item.read),
+    [data, unreadOnly]
+  );
+  const unread = data?.unread || 0;
+  const failedSources = data ? Object.entries(data.sources).filter(([, source]) => !source.ok) : [];
+
+  // The inbox is per team member - nothing to show until an identity is chosen
+  if (!getTeamMemberIdentity()) return null;
+
+  const handleOpen = (item: NotificationInboxItem) => {
+    if (!item.read) markRead.mutate({ ids: [item.id] });
+    if (item.target.kind === 'pr') {
+      onOpenItem('pr', `${item.target.repo}#${item.target.number}`);
+    } else {
+      onOpenItem('jira', item.target.key);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="notification-inbox" ref={containerRef}>
+      <button
+        className="notification-inbox-btn"
+        title={unread > 0 ? `${unread} unread notification${unread === 1 ? '' : 's'}` : 'Notifications'}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        🔔
+        {unread > 0 && <span className="notification-inbox-count">{unread > 99 ? '99+' : unread}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="notification-inbox-dropdown">
+          <div className="notification-inbox-header">
+            <span>Notifications</span>
+            <div className="notification-inbox-actions">
+              <label className="notification-inbox-filter">
+                <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+                Unread only
+              </label>
+              <button onClick={() => markRead.mutate({ all: true })} disabled={unread === 0} title="Mark all as read">
+                ✓ All
+              </button>
+              <button onClick={() => refetch()} disabled={isFetching} title="Refresh">
+                ↻
+              </button>
+            </div>
+          </div>
+
+          {failedSources.length > 0 && (
+            <div className="notification-inbox-warning">
+              {failedSources.map(([name, source]) => (
+                <div key={name}>⚠️ {name === 'github' ? 'GitHub' : 'JIRA'}: {source.error}</div>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="notification-inbox-status">Loading notifications...</div>
+          ) : error ? (
+            <div className="notification-inbox-status error">❌ {error instanceof Error ? error.message : 'Failed to load notifications'}</div>
+          ) : items.length === 0 ? (
+            <div className="notification-inbox-status">
+              {unreadOnly ? 'No unread notifications' : `Nothing in the last ${data?.days ?? 14} days`}
+            </div>
+          ) : (
+            <ul className="notification-inbox-list">
+              {items.map(item => (
+                <li
+                  key={item.id}
+                  className={`notification-inbox-item ${item.read ? 'read' : 'unread'} ${item.type}`}
+                  onClick={() => handleOpen(item)}
+                >
+                  <span className="notification-inbox-icon">{TYPE_ICONS[item.type]}</span>
+                  <div className="notification-inbox-body">
+                    <div className="notification-inbox-title">{item.title}</div>
+                    <div className="notification-inbox-subject">{item.subject}</div>
+                    {item.snippet && <div className="notification-inbox-snippet">{item.snippet}</div>}
+                    <div className="notification-inbox-meta">
+                      {item.actor && <span>{item.source === 'github' ? `@${item.actor}` : item.actor} · </span>}
+                      {formatRelativeDateInTimezone(item.timestamp, userPreferences.timezone)}
+                    </div>
+                  </div>
+                  <div className="notification-inbox-item-actions">
+                    {!item.read && (
+                      <button
+                        title="Mark as read"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          markRead.mutate({ ids: [item.id] });
+                        }}
+                      >
+                        ✓
+                      </button>
+                    )}
+                    <a
+                      href={item.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={`Open in ${item.source === 'github' ? 'GitHub' : 'JIRA'}`}
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      ↗
+                    </a>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import type { GitHubReviewer, PRCommentForNotification } from '../hooks/useApiQueries';
+import { useTeamConfig, useNotificationSeenState, useTeamPermissions } from '../hooks/useApiQueries';
 import { useSettings } from '../contexts/SettingsContext';
+import { DEFAULT_TEAM_CONFIG, getRepoShortName } from '../utils/teamConfig';
 import { formatRelativeDateInTimezone } from '../utils/formatting';
 import { 
   initializeReviewerTimestamps, 
@@ -14,6 +16,8 @@ import ReviewerCommentsModal from './ReviewerCommentsModal';
 import CollapsibleSection from './CollapsibleSection';
 import PRDescription from './PRDescription';
 import PRConversation from './PRConversation';
+import ReviewerSuggestions from './ReviewerSuggestions';
+import PRReviewComposer from './PRReviewComposer';
 
 // Use the GitHubPR interface from useApiQueries (via props)
 interface GitHubPR {
@@ -49,6 +53,7 @@ interface GitHubPR {
   // Pre-fetched data for notification badges (avoids duplicate API calls)
   description?: string;
   comments?: PRCommentForNotification[];
+  unresolvedThreads?: number;
 }
 
 // Helper function to extract repository name from PR object
@@ -74,13 +79,22 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
   const [selectedReviewer, setSelectedReviewer] = useState<string | null>(null);
   const [showJiraWarning, setShowJiraWarning] = useState(false);
   const [copied, setCopied] = useState<boolean>(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showReviewComposer, setShowReviewComposer] = useState(false);
+  const canReview = useTeamPermissions().can('github:write') && pr.state.toLowerCase() === 'open';
   
   // Track if sections have been expanded (for lazy loading)
   const [descriptionExpanded, setDescriptionExpanded] = useState(false);
   const [conversationExpanded, setConversationExpanded] = useState(false);
   
+  // Synced read-state must be loaded before the fresh-start initialization below, otherwise a new
+  // browser would mark everything as read (proceeds without it when there's no identity or the server fails)
+  const seenState = useNotificationSeenState();
+  const seenStateReady = seenState.isFetched || !seenState.isEnabled;
+
   // Initialize notification system and cleanup old data
   useEffect(() => {
+    if (!seenStateReady) return;
     if (pr.reviewers && pr.reviewers.length > 0) {
       // Initialize timestamps for fresh start approach
       const reviewerUsernames = pr.reviewers.map(r => r.username);
@@ -94,7 +108,7 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
     
     // Setup debug tools (once per session)
     setupNotificationDebugTools();
-  }, [pr.reviewers, pr.number]);
+  }, [pr.reviewers, pr.number, seenStateReady]);
 
   // Debug: Only log when there are unexpected reviewer issues
   useEffect(() => {
@@ -107,6 +121,10 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
   const repoName = getRepoName(pr);
   const prComments = pr.comments || [];
 
+  // Only label the repo when it isn't obvious (multi-repo teams, or a PR from outside the configured repos)
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const showRepoBadge = teamConfig.github.repos.length > 1 || !teamConfig.github.repos.includes(repoName);
+
   const checkoutCmd = `gh pr checkout ${pr.number}`;
 
   const handleCopyClick = async (e: React.MouseEvent) => {
@@ -233,6 +251,11 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
         >
           {pr.state.toUpperCase()}
         </span>
+        {showRepoBadge && (
+          <span className="pr-badge pr-repo" title={repoName}>
+            {getRepoShortName(repoName)}
+          </span>
+        )}
         {/* Ready to Merge badge (3+ approvals, no rebase needed, checks passed) */}
         {(() => {
           const approvals = (pr.reviewers || []).filter(r => r.state === 'approved').length;
@@ -256,6 +279,11 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
             Needs Rebase
           </span>
         )}
+        {!!pr.unresolvedThreads && (
+          <span className="pr-badge pr-unresolved" title="Review threads not yet resolved">
+            💬 {pr.unresolvedThreads} unresolved
+          </span>
+        )}
         <button
           className="pr-copy-btn"
           onClick={handleCopyClick}
@@ -319,7 +347,39 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
         ) : (
           <span className="reviewer-badge reviewer-none">No reviewers assigned</span>
         )}
+        {pr.state.toLowerCase() === 'open' && (
+          <button
+            className="pr-suggest-btn"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowSuggestions(!showSuggestions);
+            }}
+            title="Rank team members by review load, familiarity with the changed files and timezone overlap"
+          >
+            {showSuggestions ? 'Hide suggestions' : 'Suggest reviewers'}
+          </button>
+        )}
+        {canReview && (
+          <button
+            className="pr-suggest-btn"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowReviewComposer(!showReviewComposer);
+            }}
+            title="Approve, request changes or comment without leaving the dashboard"
+          >
+            {showReviewComposer ? 'Cancel review' : 'Review'}
+          </button>
+        )}
       </div>
+
+      {showSuggestions && (
+        <ReviewerSuggestions repoName={repoName} prNumber={pr.number} onClose={() => setShowSuggestions(false)} />
+      )}
+
+      {showReviewComposer && (
+        <PRReviewComposer repoName={repoName} prNumber={pr.number} onSubmitted={() => setShowReviewComposer(false)} />
+      )}
       
       {/* Description Section - lazy loaded on first expand */}
       <CollapsibleSection 
@@ -349,6 +409,7 @@ const PRCard: React.FC<PRCardProps> = ({ pr, onClick, isSelected = false, hasInv
           prNumber={pr.number}
           isOpen={!!selectedReviewer}
           onClose={closeReviewerModal}
+          canReview={canReview && !!pr.reviewers?.find(r => r.username === selectedReviewer)?.isCurrentUser}
         />
       )}
 
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { usePRConversation } from '../hooks/useApiQueries';
+import { usePRConversation, useReplyToReviewThread, useResolveReviewThread, useTeamPermissions } from '../hooks/useApiQueries';
+import type { ConversationThread } from '../hooks/useApiQueries';
 import { parseGitHubMarkdownWithCaching, formatCommentTimestamp } from '../utils/formatting';
 import { useSettings } from '../contexts/SettingsContext';
 
@@ -9,32 +10,132 @@ interface PRConversationProps {
   enabled?: boolean; // For lazy loading - only fetch when true
 }
 
+interface ReviewThreadActionsProps {
+  repoName: string;
+  prNumber: number;
+  thread: ConversationThread;
+  canWrite: boolean;
+}
+
+// Footer under the last comment of an inline review thread: resolved/outdated state, reply and resolve
+const ReviewThreadActions: React.FC<ReviewThreadActionsProps> = ({ repoName, prNumber, thread, canWrite }) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const replyMutation = useReplyToReviewThread();
+  const resolveMutation = useResolveReviewThread();
+
+  const handleReply = async () => {
+    if (!reply.trim() || !thread.rootCommentId || replyMutation.isPending) return;
+    try {
+      await replyMutation.mutateAsync({ repoName, prNumber, commentId: thread.rootCommentId, body: reply });
+      setReply('');
+      setIsReplying(false);
+    } catch {
+      // Shown below the textarea via replyMutation.error
+    }
+  };
+
+  const handleResolve = () => {
+    if (!thread.nodeId) return;
+    resolveMutation.mutate(
+      { repoName, prNumber, threadId: thread.nodeId, resolved: !thread.isResolved },
+      {
+        onError: (err) => {
+          console.error(`Failed to update review thread on ${repoName}#${prNumber}:`, err);
+          alert(`Failed to ${thread.isResolved ? 'unresolve' : 'resolve'} thread: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="review-thread-actions">
+      <div className="review-thread-status">
+        {thread.isResolved && (
+          <span className="resolved-badge">✓ Resolved{thread.resolvedBy ? ` by @${thread.resolvedBy}` : ''}</span>
+        )}
+        {thread.isOutdated && <span className="review-thread-outdated">Outdated</span>}
+        {canWrite && (
+          <>
+            {!isReplying && thread.rootCommentId && (
+              <button onClick={() => setIsReplying(true)}>Reply</button>
+            )}
+            {thread.nodeId && (
+              <button onClick={handleResolve} disabled={resolveMutation.isPending}>
+                {thread.isResolved ? 'Unresolve' : 'Resolve'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      {isReplying && (
+        <div className="review-thread-reply">
+          <textarea
+            rows={2}
+            placeholder="Reply (GitHub markdown)"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                handleReply();
+              }
+            }}
+            disabled={replyMutation.isPending}
+            autoFocus
+          />
+          {replyMutation.error && <div className="form-error">❌ {replyMutation.error.message}</div>}
+          <div className="review-thread-reply-actions">
+            <button onClick={() => { setIsReplying(false); setReply(''); }}>Cancel</button>
+            <button className="primary" onClick={handleReply} disabled={!reply.trim() || replyMutation.isPending}>
+              {replyMutation.isPending ? 'Posting...' : 'Reply'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const PRConversation: React.FC<PRConversationProps> = ({ repoName, prNumber, enabled = true }) => {
   // Lazy loading: only fetch when enabled (section is expanded)
   const { data, isLoading, error } = usePRConversation(repoName, prNumber, { enabled });
   const { apiTokens, userPreferences } = useSettings();
+  const canWriteGitHub = useTeamPermissions().can('github:write');
   const [parsedComments, setParsedComments] = useState<Record<string, string>>({});
   const [parsingComments, setParsingComments] = useState(false);
   const [sortMode, setSortMode] = useState<'github_default' | 'most_recent'>('github_default');
+  const [onlyUnresolved, setOnlyUnresolved] = useState(false);
+
+  const reviewThreads = React.useMemo(() => {
+    const threads = new Map<string, ConversationThread>();
+    (data?.threads || []).forEach(thread => {
+      if (thread.type === 'review_thread') threads.set(thread.id, thread);
+    });
+    return threads;
+  }, [data?.threads]);
+
+  const unresolvedCount = Array.from(reviewThreads.values()).filter(t => !t.isResolved).length;
 
   // Process comments based on sort mode - MUST be called before any early returns (Rules of Hooks)
   const processedComments = React.useMemo(() => {
     if (!data?.comments) return [];
     
-    // Filter out bot comments (e.g., jira-linking[bot])
+    // Filter out bot comments (e.g., jira-linking[bot]), and everything but open review threads when asked
     const filteredComments = data.comments.filter(
       (comment: any) => !comment.user?.login?.includes('[bot]')
+        && (!onlyUnresolved || (comment.comment_type === 'inline' && !reviewThreads.get(comment.thread_id)?.isResolved))
     );
     
     if (sortMode === 'github_default') {
       // GitHub Default: Light threading with recency weighting
-      // Group inline comments by file/line, sort groups by most recent activity
+      // Group inline comments by review thread, sort groups by most recent activity
       const commentGroups = new Map<string, any[]>();
       const standaloneComments: any[] = [];
       
       filteredComments.forEach(comment => {
-        if (comment.comment_type === 'inline' && comment.path && comment.line) {
-          const groupKey = `${comment.path}:${comment.line}`;
+        if (comment.comment_type === 'inline' && comment.thread_id) {
+          const groupKey = comment.thread_id;
           if (!commentGroups.has(groupKey)) {
             commentGroups.set(groupKey, []);
           }
@@ -96,7 +197,7 @@ const PRConversation: React.FC<PRConversationProps> = ({ repoName, prNumber, ena
         return dateB - dateA; // Most recent first
       });
     }
-  }, [data?.comments, sortMode]);
+  }, [data?.comments, sortMode, onlyUnresolved, reviewThreads]);
 
   // Parse comments when data changes
   useEffect(() => {
@@ -164,6 +265,14 @@ const PRConversation: React.FC<PRConversationProps> = ({ repoName, prNumber, ena
             ⏰ Most Recent ({processedComments.length} comments)
           </button>
         </div>
+        {reviewThreads.size > 0 && (
+          <div className="resolved-toggle">
+            <label className="checkbox-label">
+              <input type="checkbox" checked={onlyUnresolved} onChange={(e) => setOnlyUnresolved(e.target.checked)} />
+              Only unresolved ({unresolvedCount})
+            </label>
+          </div>
+        )}
       </div>
 
       {/* Content */}
@@ -176,8 +285,11 @@ const PRConversation: React.FC<PRConversationProps> = ({ repoName, prNumber, ena
               const isInlineGroup = comment.comment_type === 'inline' && 
                                    index > 0 && 
                                    processedComments[index - 1].comment_type === 'inline' &&
-                                   processedComments[index - 1].path === comment.path &&
-                                   processedComments[index - 1].line === comment.line;
+                                   processedComments[index - 1].thread_id === comment.thread_id;
+              // Thread controls go under the last comment of each thread (threads are only contiguous in GitHub Default)
+              const thread = comment.comment_type === 'inline' ? reviewThreads.get(comment.thread_id) : undefined;
+              const isThreadEnd = sortMode === 'github_default' &&
+                                  processedComments[index + 1]?.thread_id !== comment.thread_id;
               
               return (
                 <div 
@@ -208,11 +320,19 @@ const PRConversation: React.FC<PRConversationProps> = ({ repoName, prNumber, ena
                       __html: parsedComments[comment.id.toString()] || comment.body?.replace(/\n/g, '<br>') || ''
                     }}
                   />
+                  {thread && isThreadEnd && (
+                    <ReviewThreadActions repoName={repoName} prNumber={prNumber} thread={thread} canWrite={canWriteGitHub} />
+                  )}
                 </div>
               );
             })}
           </div>
         )
+      ) : onlyUnresolved ? (
+        <div className="resolved-threads-notice">
+          All review threads are resolved
+          <button className="show-resolved-btn" onClick={() => setOnlyUnresolved(false)}>Show all comments</button>
+        </div>
       ) : (
         <div className="no-content">No comments yet</div>
       )}
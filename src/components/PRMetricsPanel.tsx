@@ -0,0 +1,290 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { usePRMetrics, useLastUpdatedFormat } from '../hooks/useApiQueries';
+import { formatDurationHours } from '../utils/formatting';
+import { getRepoShortName } from '../utils/teamConfig';
+
+type PRSort = 'firstReview' | 'approval' | 'merge' | 'rounds';
+
+const WINDOW_OPTIONS = [7, 14, 30, 60, 90];
+
+const PR_SORT_FIELDS: Record<PRSort, 'timeToFirstReviewHours' | 'firstReviewToApprovalHours' | 'timeToMergeHours' | 'reviewRounds'> = {
+  firstReview: 'timeToFirstReviewHours',
+  approval: 'firstReviewToApprovalHours',
+  merge: 'timeToMergeHours',
+  rounds: 'reviewRounds'
+};
+
+// Roster name when known, GitHub login otherwise
+const displayName = (login: string, name: string | null) => name ? `${name} (@${login})` : `@${login}`;
+
+const PRMetricsPanel: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [teamOnly, setTeamOnly] = useState(true);
+  const [prSort, setPRSort] = useState<PRSort>('firstReview');
+  const [showAllPRs, setShowAllPRs] = useState(false);
+  const { data, isLoading, error, refetch, isFetching, dataUpdatedAt } = usePRMetrics(days);
+  const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
+
+  const authors = useMemo(() => (data?.byAuthor || []).filter(a => !teamOnly || a.name), [data, teamOnly]);
+
+  // Slowest responders first - that's where PRs wait
+  const reviewers = useMemo(() => (data?.byReviewer || [])
+    .filter(r => !teamOnly || r.name)
+    .sort((a, b) => (b.responseTime.p50 ?? -1) - (a.responseTime.p50 ?? -1)), [data, teamOnly]);
+
+  const reviewerChartData = useMemo(() => reviewers.map(r => ({
+    reviewer: r.name || `@${r.login}`,
+    p50: r.responseTime.p50,
+    p90: r.responseTime.p90
+  })), [reviewers]);
+
+  const sortedPRs = useMemo(() => {
+    if (!data) return [];
+    const field = PR_SORT_FIELDS[prSort];
+    return data.prs
+      .filter(pr => !teamOnly || pr.authorName)
+      .sort((a, b) => (b[field] ?? -1) - (a[field] ?? -1));
+  }, [data, teamOnly, prSort]);
+  const visiblePRs = showAllPRs ? sortedPRs : sortedPRs.slice(0, 25);
+
+  const header = (
+    <div className="panel-header">
+      <h2>PR Metrics</h2>
+      <div className="header-actions">
+        <select className="report-select" value={days} onChange={(e) => setDays(parseInt(e.target.value, 10))}>
+          {WINDOW_OPTIONS.map(d => (
+            <option key={d} value={d}>Opened in last {d} days</option>
+          ))}
+        </select>
+        <span className="last-updated">
+          Updated: {lastUpdated}
+          {isFetching && <span className="refreshing"> (refreshing...)</span>}
+        </span>
+        <button onClick={() => refetch()} className="refresh-btn" disabled={isFetching} title="Refresh data">
+          ↻
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="loading-state">
+          <div className="spinner" />
+          <p>Computing PR metrics...</p>
+          <p className="loading-hint">Fetching review history for every PR in the window</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="error-state">
+          <p>❌ {error instanceof Error ? error.message : 'Failed to load PR metrics'}</p>
+          <button onClick={() => refetch()} className="retry-btn">
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { overall } = data;
+  const showRepo = data.repos.length > 1;
+
+  return (
+    <div className="report-panel">
+      {header}
+
+      {/* Overall summary (all authors) */}
+      <div className="report-summary">
+        <div className="report-summary-card">
+          <div className="report-summary-value">{overall.prs}</div>
+          <div className="report-summary-label">PRs opened ({overall.merged} merged)</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{formatDurationHours(overall.timeToFirstReview.p50)}</div>
+          <div className="report-summary-label">Median time to first review</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{formatDurationHours(overall.firstReviewToApproval.p50)}</div>
+          <div className="report-summary-label">Median first review → approval</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{formatDurationHours(overall.timeToMerge.p50)}</div>
+          <div className="report-summary-label">Median time to merge</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{overall.avgReviewRounds ?? '—'}</div>
+          <div className="report-summary-label">Avg review rounds</div>
+        </div>
+      </div>
+      <div className="report-hint prm-definitions">
+        First review is measured from when the PR was ready for review; a review round is each pushed revision that got reviewed. Bots and self-reviews are ignored.
+      </div>
+      {data.truncated && (
+        <div className="report-hint">⚠️ Only the most recent {overall.prs} PRs in the window were analysed</div>
+      )}
+
+      <label className="prm-team-filter">
+        <input type="checkbox" checked={teamOnly} onChange={(e) => setTeamOnly(e.target.checked)} />
+        Team members only (authors and reviewers on the roster)
+      </label>
+
+      {/* Per author */}
+      <div className="report-section">
+        <h3>By author ({authors.length})</h3>
+        {authors.length > 0 ? (
+          <div className="report-table-scroll">
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Author</th>
+                  <th className="num-col">PRs</th>
+                  <th className="num-col">Merged</th>
+                  <th className="num-col">First review p50</th>
+                  <th className="num-col">First review p90</th>
+                  <th className="num-col">→ Approval p50</th>
+                  <th className="num-col">Merge p50</th>
+                  <th className="num-col">Merge p90</th>
+                  <th className="num-col">Avg rounds</th>
+                </tr>
+              </thead>
+              <tbody>
+                {authors.map(a => (
+                  <tr key={a.login}>
+                    <td>{displayName(a.login, a.name)}</td>
+                    <td className="num-col">{a.prs}</td>
+                    <td className="num-col">{a.merged}</td>
+                    <td className="num-col">{formatDurationHours(a.timeToFirstReview.p50)}</td>
+                    <td className="num-col">{formatDurationHours(a.timeToFirstReview.p90)}</td>
+                    <td className="num-col">{formatDurationHours(a.firstReviewToApproval.p50)}</td>
+                    <td className="num-col">{formatDurationHours(a.timeToMerge.p50)}</td>
+                    <td className="num-col">{formatDurationHours(a.timeToMerge.p90)}</td>
+                    <td className="num-col">{a.avgReviewRounds ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="report-empty">No PRs opened in this window</p>
+        )}
+      </div>
+
+      {/* Per reviewer */}
+      <div className="report-section">
+        <h3>Reviewer response time (hours from request to first review)</h3>
+        {reviewers.length > 0 ? (
+          <>
+            <div className="report-chart">
+              <ResponsiveContainer width="100%" height={Math.max(220, reviewerChartData.length * 28)}>
+                <BarChart data={reviewerChartData} layout="vertical" margin={{ top: 10, right: 20, bottom: 0, left: 20 }}>
+                  <CartesianGrid stroke="#333" strokeDasharray="3 3" />
+                  <XAxis type="number" stroke="#9ca3af" fontSize={11} />
+                  <YAxis type="category" dataKey="reviewer" stroke="#9ca3af" fontSize={11} width={140} />
+                  <Tooltip contentStyle={{ background: '#1a1a1a', border: '1px solid #444', color: '#e5e7eb' }} />
+                  <Legend />
+                  <Bar dataKey="p50" name="p50" fill="#22c55e" />
+                  <Bar dataKey="p90" name="p90" fill="#ef4444" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="report-table-scroll">
+              <table className="report-table">
+                <thead>
+                  <tr>
+                    <th>Reviewer</th>
+                    <th className="num-col">PRs reviewed</th>
+                    <th className="num-col">Response p50</th>
+                    <th className="num-col">Response p90</th>
+                    <th className="num-col">Approved</th>
+                    <th className="num-col">Changes requested</th>
+                    <th className="num-col">Commented</th>
+                    <th className="num-col">Awaiting</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviewers.map(r => (
+                    <tr key={r.login}>
+                      <td>{displayName(r.login, r.name)}</td>
+                      <td className="num-col">{r.prsReviewed}</td>
+                      <td className="num-col">{formatDurationHours(r.responseTime.p50)}</td>
+                      <td className="num-col">{formatDurationHours(r.responseTime.p90)}</td>
+                      <td className="num-col">{r.approvals}</td>
+                      <td className="num-col">{r.changesRequested}</td>
+                      <td className="num-col">{r.comments}</td>
+                      <td className={`num-col ${r.awaiting > 0 ? 'prm-awaiting' : ''}`}>{r.awaiting}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="report-empty">No reviews submitted in this window</p>
+        )}
+      </div>
+
+      {/* Per PR */}
+      <div className="report-section">
+        <div className="report-section-header">
+          <h3>Slowest PRs ({sortedPRs.length})</h3>
+          <div className="report-unit-toggle">
+            <button className={prSort === 'firstReview' ? 'active' : ''} onClick={() => setPRSort('firstReview')}>First review</button>
+            <button className={prSort === 'approval' ? 'active' : ''} onClick={() => setPRSort('approval')}>Approval</button>
+            <button className={prSort === 'merge' ? 'active' : ''} onClick={() => setPRSort('merge')}>Merge</button>
+            <button className={prSort === 'rounds' ? 'active' : ''} onClick={() => setPRSort('rounds')}>Rounds</button>
+          </div>
+        </div>
+        <div className="report-table-scroll">
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>PR</th>
+                <th>Title</th>
+                <th>Author</th>
+                <th>State</th>
+                <th className="num-col">First review</th>
+                <th className="num-col">→ Approval</th>
+                <th className="num-col">Merge</th>
+                <th className="num-col">Rounds</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visiblePRs.map(pr => (
+                <tr key={`${pr.repo}#${pr.number}`}>
+                  <td>
+                    <a href={pr.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">
+                      {showRepo ? `${getRepoShortName(pr.repo)}#${pr.number}` : `#${pr.number}`}
+                    </a>
+                  </td>
+                  <td className="report-summary-cell">{pr.title}</td>
+                  <td>{pr.authorName || `@${pr.author}`}</td>
+                  <td><span className={`prm-state ${pr.state}`}>{pr.state}</span></td>
+                  <td className="num-col">{formatDurationHours(pr.timeToFirstReviewHours)}</td>
+                  <td className="num-col">{formatDurationHours(pr.firstReviewToApprovalHours)}</td>
+                  <td className="num-col">{formatDurationHours(pr.timeToMergeHours)}</td>
+                  <td className="num-col">{pr.reviewRounds}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {sortedPRs.length > 25 && (
+          <button className="report-show-all-btn" onClick={() => setShowAllPRs(!showAllPRs)}>
+            {showAllPRs ? 'Show top 25' : `Show all ${sortedPRs.length}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PRMetricsPanel;
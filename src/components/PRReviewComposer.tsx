@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { useMemberCredentials, useSubmitPRReview } from '../hooks/useApiQueries';
+import type { PRReviewEvent } from '../hooks/useApiQueries';
+import { parseGitHubMarkdown } from '../utils/formatting';
+
+interface PRReviewComposerProps {
+  repoName: string;
+  prNumber: number;
+  onSubmitted?: () => void;
+}
+
+const REVIEW_EVENTS: Array<{ id: PRReviewEvent; label: string; needsPersonalToken: boolean }> = [
+  { id: 'COMMENT', label: '💬 Comment', needsPersonalToken: false },
+  { id: 'APPROVE', label: '✅ Approve', needsPersonalToken: true },
+  { id: 'REQUEST_CHANGES', label: '❌ Request changes', needsPersonalToken: true },
+];
+
+const PREVIEW_DEBOUNCE_MS = 300;
+
+// Review box for a PR: pick the review state, write a Markdown body and preview it the same way
+// comments are rendered. Approvals and change requests go out with the member's personal GitHub
+// token (linked in Settings); plain comments fall back to the shared token with attribution.
+const PRReviewComposer: React.FC<PRReviewComposerProps> = ({ repoName, prNumber, onSubmitted }) => {
+  const [event, setEvent] = useState<PRReviewEvent>('COMMENT');
+  const [body, setBody] = useState('');
+  const [preview, setPreview] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { data: credentials } = useMemberCredentials();
+  const submitReview = useSubmitPRReview();
+  const githubCredential = credentials?.github;
+  const hasPersonalToken = !!githubCredential?.linked && (githubCredential.status === 'ok' || githubCredential.status === 'expiring');
+  const needsRelink = !!githubCredential?.linked && !hasPersonalToken;
+
+  useEffect(() => {
+    if (!body.trim()) {
+      setPreview('');
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const html = await parseGitHubMarkdown(body);
+      if (!cancelled) setPreview(html);
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [body]);
+
+  const bodyRequired = event !== 'APPROVE';
+  const canSubmit = (!bodyRequired || !!body.trim()) && !submitReview.isPending;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setError(null);
+    try {
+      await submitReview.mutateAsync({ repoName, prNumber, event, body });
+      setBody('');
+      setEvent('COMMENT');
+      onSubmitted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit review');
+    }
+  };
+
+  return (
+    <div className="pr-review-composer" onClick={(e) => e.stopPropagation()}>
+      <div className="pr-review-events">
+        {REVIEW_EVENTS.map(option => (
+          <button
+            key={option.id}
+            className={`toggle-btn ${event === option.id ? 'active' : ''}`}
+            onClick={() => setEvent(option.id)}
+            disabled={option.needsPersonalToken && !hasPersonalToken}
+            title={option.needsPersonalToken && !hasPersonalToken ? 'Link your GitHub token in Settings to submit this as yourself' : undefined}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        rows={3}
+        placeholder={bodyRequired ? 'Leave a review comment (GitHub markdown)' : 'Optional comment (GitHub markdown)'}
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        disabled={submitReview.isPending}
+      />
+
+      {preview && (
+        <div className="pr-review-preview">
+          <div className="pr-review-preview-label">Preview</div>
+          <div className="markdown-container comment-body" dangerouslySetInnerHTML={{ __html: preview }} />
+        </div>
+      )}
+
+      {error && <div className="form-error">❌ {error}</div>}
+
+      <div className="pr-review-footer">
+        <small>
+          {hasPersonalToken
+            ? `Submitted as @${githubCredential?.login}`
+            : needsRelink
+              ? '⚠️ Your GitHub token has expired - re-link it in Settings to submit reviews'
+              : credentials && !credentials.identityVerified
+                ? 'Posted by the shared GitHub account with "(via dashboard by you)" appended - approving or requesting changes needs SSO sign-in'
+                : 'Posted by the shared GitHub account with "(via dashboard by you)" appended - link your GitHub token in Settings to approve or request changes'}
+        </small>
+        <button onClick={handleSubmit} disabled={!canSubmit}>
+          {submitReview.isPending ? 'Submitting...' : 'Submit review'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PRReviewComposer;
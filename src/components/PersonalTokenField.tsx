@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useUpdateMemberCredential } from '../hooks/useApiQueries';
+import type { CredentialService, MemberCredentialStatus } from '../hooks/useApiQueries';
+
+interface PersonalTokenFieldProps {
+  service: CredentialService;
+  label: string;
+  credential: MemberCredentialStatus;
+  encryptionConfigured: boolean;
+  identityVerified: boolean;
+  placeholder: string;
+  help: React.ReactNode;
+}
+
+const STATUS_MESSAGES: Record<string, string> = {
+  expiring: 'expires soon - link a new token before it stops working',
+  expired: 'has expired or was revoked - link a new token',
+  unreadable: 'can no longer be read by the server - link it again',
+};
+
+// Settings row for one personal token (SettingsModal). Linking and unlinking take effect
+// immediately - the token is stored encrypted server-side, not with the rest of the settings.
+// Tokens that are expiring, expired or unreadable keep the input visible so they can be re-linked.
+const PersonalTokenField: React.FC<PersonalTokenFieldProps> = ({ service, label, credential, encryptionConfigured, identityVerified, placeholder, help }) => {
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const updateCredential = useUpdateMemberCredential();
+  const inputId = `personal-${service}-token`;
+  const account = service === 'github' ? `@${credential.login}` : credential.login;
+  const needsRelink = credential.linked && credential.status !== 'ok';
+  const canLink = encryptionConfigured && identityVerified;
+
+  const handleUpdate = async (value: string | null) => {
+    setError(null);
+    try {
+      await updateCredential.mutateAsync({ service, token: value });
+      setToken('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to update ${label} token`);
+    }
+  };
+
+  return (
+    <div className="form-group">
+      <label htmlFor={inputId}>Personal {label} Token:</label>
+      {credential.linked && (
+        <div className="input-row">
+          <div className={`service-account-info ${needsRelink ? 'credential-needs-relink' : ''}`}>
+            {needsRelink
+              ? `⚠️ Token for ${account} ${STATUS_MESSAGES[credential.status || 'expired']}`
+              : `✅ Linked as ${account}`}
+            {credential.expiresAt && credential.status !== 'expired' && (
+              <small> (expires {new Date(credential.expiresAt).toLocaleDateString()})</small>
+            )}
+          </div>
+          <button className="test-btn" onClick={() => handleUpdate(null)} disabled={updateCredential.isPending}>
+            Unlink
+          </button>
+        </div>
+      )}
+      {(!credential.linked || needsRelink) && (
+        <div className="input-row">
+          <input
+            id={inputId}
+            type="password"
+            placeholder={!encryptionConfigured ? 'Not enabled on this server' : !identityVerified ? 'Requires SSO sign-in' : placeholder}
+            value={token}
+            disabled={!canLink}
+            onChange={(e) => {
+              setToken(e.target.value);
+              setError(null);
+            }}
+          />
+          <button
+            className="test-btn"
+            onClick={() => handleUpdate(token.trim())}
+            disabled={!token.trim() || updateCredential.isPending}
+          >
+            {updateCredential.isPending ? 'Checking...' : needsRelink ? 'Re-link' : 'Link'}
+          </button>
+        </div>
+      )}
+      {error && <div className="form-error">❌ {error}</div>}
+      <div className="help-text">
+        <small>
+          {help}
+          {!encryptionConfigured && ' Ask an admin to set CREDENTIALS_ENCRYPTION_KEY to enable this.'}
+          {encryptionConfigured && !identityVerified && ' Only available when you sign in through SSO, so nobody else can act with your token.'}
+        </small>
+      </div>
+    </div>
+  );
+};
+
+export default PersonalTokenField;
@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { useTeamConfig } from '../hooks/useApiQueries';
+import { DEFAULT_TEAM_CONFIG, getRepoShortName, parsePRReference } from '../utils/teamConfig';
 
 type FindType = 'jira' | 'pr';
 
@@ -9,23 +11,27 @@ interface QuickFindBarProps {
 const QuickFindBar: React.FC<QuickFindBarProps> = ({ onFind }) => {
   const [findType, setFindType] = useState<FindType>('jira');
   const [inputValue, setInputValue] = useState('');
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const projectKey = teamConfig.jira.projectKey;
+  const repos = teamConfig.github.repos;
 
   const handleFind = () => {
     const trimmedValue = inputValue.trim();
     if (!trimmedValue) return;
 
     if (findType === 'jira') {
-      // Normalize JIRA ID - add OCMUI- prefix if just a number
+      // Normalize JIRA ID - add the team's project prefix (e.g. OCMUI-) if just a number
       let jiraId = trimmedValue.toUpperCase();
       if (/^\d+$/.test(jiraId)) {
-        jiraId = `OCMUI-${jiraId}`;
+        jiraId = `${projectKey}-${jiraId}`;
       }
       onFind('jira', jiraId);
     } else {
-      // PR number - strip # if present and ensure it's a number
-      const prNumber = trimmedValue.replace(/^#/, '');
-      if (/^\d+$/.test(prNumber)) {
-        onFind('pr', prNumber);
+      // PR reference - "1234", "#1234", "repo#1234" or "owner/repo#1234"
+      // Normalized to "owner/repo#1234" (bare numbers resolve to the first configured repo)
+      const prRef = parsePRReference(trimmedValue, repos);
+      if (prRef) {
+        onFind('pr', `${prRef.repoName}#${prRef.prNumber}`);
       }
     }
     
@@ -55,7 +61,12 @@ const QuickFindBar: React.FC<QuickFindBarProps> = ({ onFind }) => {
         value={inputValue}
         onChange={(e) => setInputValue(e.target.value)}
         onKeyDown={handleKeyDown}
-        placeholder={findType === 'jira' ? 'OCMUI-1234' : '1234'}
+        placeholder={findType === 'jira'
+          ? `${projectKey}-1234`
+          : (repos.length > 1 ? `${getRepoShortName(repos[0])}#1234` : '1234')}
+        title={findType === 'pr' && repos.length > 1
+          ? `PR number (defaults to ${repos[0]}), or repo#number for: ${repos.map(getRepoShortName).join(', ')}`
+          : undefined}
       />
       <button
         className="quick-find-btn"
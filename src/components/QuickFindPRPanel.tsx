@@ -5,13 +5,14 @@ import BasePanel from './BasePanel';
 import githubIcon from '../assets/githubIcon.png';
 
 interface QuickFindPRPanelProps {
+  repoName: string;
   prNumber: number;
   onPRFound: (pr: any | undefined) => void;
   invalidJiraIds?: string[];
 }
 
-const QuickFindPRPanel: React.FC<QuickFindPRPanelProps> = ({ prNumber, onPRFound, invalidJiraIds = [] }) => {
-  const { data: pr, isLoading, error } = usePRByNumber(prNumber);
+const QuickFindPRPanel: React.FC<QuickFindPRPanelProps> = ({ repoName, prNumber, onPRFound, invalidJiraIds = [] }) => {
+  const { data: pr, isLoading, error } = usePRByNumber(repoName, prNumber);
 
   // Auto-select the PR when found (to trigger Associated JIRAs)
   useEffect(() => {
@@ -57,7 +58,7 @@ const QuickFindPRPanel: React.FC<QuickFindPRPanelProps> = ({ prNumber, onPRFound
         </div>
         <div className="panel-body">
           <div className="empty-state">
-            <p>PR #{prNumber} not found in uhc-portal</p>
+            <p>PR #{prNumber} not found in {repoName}</p>
           </div>
         </div>
       </div>
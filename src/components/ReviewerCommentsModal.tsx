@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { useSettings } from '../contexts/SettingsContext';
 import { parseGitHubMarkdownWithCaching } from '../utils/formatting';
 import { auditFetch } from '../utils/auditFetch';
+import PRReviewComposer from './PRReviewComposer';
 
 interface ReviewerComment {
   body: string;
@@ -17,6 +18,7 @@ interface ReviewerCommentsModalProps {
   prNumber: number;
   isOpen: boolean;
   onClose: () => void;
+  canReview?: boolean; // Show the review composer (the reviewer is the current user)
 }
 
 const ReviewerCommentsModal: React.FC<ReviewerCommentsModalProps> = ({
@@ -24,13 +26,15 @@ const ReviewerCommentsModal: React.FC<ReviewerCommentsModalProps> = ({
   repoName,
   prNumber,
   isOpen,
-  onClose
+  onClose,
+  canReview = false
 }) => {
   const [comments, setComments] = useState<ReviewerComment[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [parsedComments, setParsedComments] = useState<Record<string, string>>({});
   const [parsingComments, setParsingComments] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0); // Bumped after submitting a review to refetch
   const { apiTokens } = useSettings();
 
   useEffect(() => {
@@ -114,7 +118,7 @@ const ReviewerCommentsModal: React.FC<ReviewerCommentsModalProps> = ({
     };
 
     fetchComments();
-  }, [isOpen, reviewer, repoName, prNumber]); // No token dependency - server provides it
+  }, [isOpen, reviewer, repoName, prNumber, reloadCount]); // No token dependency - server provides it
 
   // Parse comments after they're fetched
   useEffect(() => {
@@ -222,6 +226,12 @@ const ReviewerCommentsModal: React.FC<ReviewerCommentsModalProps> = ({
               </div>
             )}
           </div>
+
+          {canReview && (
+            <div className="reviewer-comments-review">
+              <PRReviewComposer repoName={repoName} prNumber={prNumber} onSubmitted={() => setReloadCount(c => c + 1)} />
+            </div>
+          )}
         </div>
       </div>
     </div>,
@@ -0,0 +1,65 @@
+import React from 'react';
+import { useSuggestedReviewers } from '../hooks/useApiQueries';
+
+interface ReviewerSuggestionsProps {
+  repoName: string;
+  prNumber: number;
+  onClose: () => void;
+}
+
+const ReviewerSuggestions: React.FC<ReviewerSuggestionsProps> = ({ repoName, prNumber, onClose }) => {
+  const { data, isLoading, error, refetch, isFetching } = useSuggestedReviewers(repoName, prNumber, true);
+
+  return (
+    <div className="reviewer-suggestions" onClick={(e) => e.stopPropagation()}>
+      <div className="reviewer-suggestions-header">
+        <span>Suggested reviewers</span>
+        <div className="reviewer-suggestions-actions">
+          <button onClick={() => refetch()} disabled={isFetching} title="Recalculate">
+            ↻
+          </button>
+          <button onClick={onClose} title="Close">
+            ×
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="reviewer-suggestions-status">Ranking team members...</div>
+      ) : error ? (
+        <div className="reviewer-suggestions-status error">❌ {error instanceof Error ? error.message : 'Failed to suggest reviewers'}</div>
+      ) : !data || data.suggestions.length === 0 ? (
+        <div className="reviewer-suggestions-status">{data?.message || 'No team members to suggest'}</div>
+      ) : (
+        <>
+          {data.weights && (
+            <div className="reviewer-suggestions-hint">
+              Score = {Math.round(data.weights.familiarity * 100)}% familiarity with the {data.pr.files ?? 0} changed files
+              {' + '}{Math.round(data.weights.load * 100)}% review load
+              {' + '}{Math.round(data.weights.timezone * 100)}% timezone overlap with {data.pr.authorName || `@${data.pr.author}`}
+            </div>
+          )}
+          <ol className="reviewer-suggestions-list">
+            {data.suggestions.map(s => (
+              <li key={s.github} className={s.alreadyRequested ? 'already-requested' : ''}>
+                <div className="reviewer-suggestion-title">
+                  <span className="reviewer-suggestion-score">{s.score}</span>
+                  <strong>{s.name}</strong>
+                  <span className="reviewer-suggestion-login">@{s.github}</span>
+                  {s.alreadyRequested && <span className="reviewer-suggestion-tag">already requested</span>}
+                </div>
+                <ul className="reviewer-suggestion-reasons">
+                  {s.reasons.map((reason, idx) => (
+                    <li key={idx}>{reason}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReviewerSuggestions;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { useReviewerWorkload, useLastUpdatedFormat } from '../hooks/useApiQueries';
+import { useReviewerWorkload, useLastUpdatedFormat, useTeamConfig } from '../hooks/useApiQueries';
 import { auditFetch } from '../utils/auditFetch';
+import { DEFAULT_TEAM_CONFIG, getRepoShortName } from '../utils/teamConfig';
 
 interface TeamMember {
   name: string;
@@ -13,6 +14,24 @@ interface TeamMember {
 const ReviewerWorkloadPanel: React.FC = () => {
   const { data, isLoading, error, dataUpdatedAt, refetch, isFetching } = useReviewerWorkload();
   const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const repoQualifier = teamConfig.github.repos.map(r => `repo:${r}`).join('+');
+  const isMultiRepo = (data?.repos || teamConfig.github.repos).length > 1;
+
+  // Members whose per-repo breakdown is expanded (multi-repo teams only)
+  const [expandedMembers, setExpandedMembers] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (github: string) => {
+    setExpandedMembers(prev => {
+      const next = new Set(prev);
+      if (next.has(github)) {
+        next.delete(github);
+      } else {
+        next.add(github);
+      }
+      return next;
+    });
+  };
   
   // Fetch full team roster to show who's missing GitHub usernames
   const [membersWithoutGithub, setMembersWithoutGithub] = useState<TeamMember[]>([]);
@@ -133,8 +152,20 @@ const ReviewerWorkloadPanel: React.FC = () => {
           </thead>
           <tbody>
             {data.members.map((member) => (
-              <tr key={member.github} className={member.error ? 'has-error' : ''}>
-                <td className="name-cell">{member.name}</td>
+              <React.Fragment key={member.github}>
+              <tr className={member.error ? 'has-error' : ''}>
+                <td className="name-cell">
+                  {isMultiRepo && (
+                    <button
+                      className="repo-breakdown-toggle"
+                      onClick={() => toggleExpanded(member.github)}
+                      title={expandedMembers.has(member.github) ? 'Hide per-repo breakdown' : 'Show per-repo breakdown'}
+                    >
+                      {expandedMembers.has(member.github) ? '▾' : '▸'}
+                    </button>
+                  )}
+                  {member.name}
+                </td>
                 <td className="github-cell">
                   <a 
                     href={`https://github.com/${member.github}`}
@@ -148,7 +179,7 @@ const ReviewerWorkloadPanel: React.FC = () => {
                 <td className="num-col pending-col">
                   {member.pending > 0 ? (
                     <a
-                      href={`https://github.com/RedHatInsights/uhc-portal/pulls?q=is:pr+is:open+review-requested:${member.github}`}
+                      href={`https://github.com/pulls?q=is:pr+is:open+${repoQualifier}+review-requested:${member.github}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="pending-link"
@@ -162,6 +193,30 @@ const ReviewerWorkloadPanel: React.FC = () => {
                 <td className="num-col approved-col">{member.approved > 0 ? member.approved : ''}</td>
                 <td className="num-col total-col">{member.total > 0 ? member.total : ''}</td>
               </tr>
+              {isMultiRepo && expandedMembers.has(member.github) && Object.entries(member.repos || {}).map(([repoName, counts]) => (
+                <tr key={`${member.github}-${repoName}`} className="repo-breakdown-row">
+                  <td className="name-cell" colSpan={2}>
+                    <span className="repo-breakdown-name" title={repoName}>{getRepoShortName(repoName)}</span>
+                  </td>
+                  <td className="num-col pending-col">
+                    {counts.pending > 0 ? (
+                      <a
+                        href={`https://github.com/pulls?q=is:pr+is:open+repo:${repoName}+review-requested:${member.github}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="pending-link"
+                      >
+                        {counts.pending}
+                      </a>
+                    ) : ''}
+                  </td>
+                  <td className="num-col changes-col">{counts.changesRequested > 0 ? counts.changesRequested : ''}</td>
+                  <td className="num-col commented-col">{counts.commented > 0 ? counts.commented : ''}</td>
+                  <td className="num-col approved-col">{counts.approved > 0 ? counts.approved : ''}</td>
+                  <td className="num-col total-col">{counts.total > 0 ? counts.total : ''}</td>
+                </tr>
+              ))}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
@@ -1,15 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { useSettings } from '../contexts/SettingsContext';
-import type { ApiTokens } from '../types/settings';
+import { useTeamConfig, useUpdateTeamConfig, useDigestSettings, useUpdateDigestSubscription, openDigest, useTeamPermissions, useMemberCredentials } from '../hooks/useApiQueries';
+import type { DigestFrequency } from '../hooks/useApiQueries';
+import type { ApiTokens, DesktopNotificationPreferences } from '../types/settings';
+import { DEFAULT_TEAM_CONFIG } from '../utils/teamConfig';
+import PersonalTokenField from './PersonalTokenField';
+import { getTeamMemberIdentity } from '../utils/auditFetch';
+import {
+  DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES,
+  DESKTOP_NOTIFICATION_EVENTS,
+  getDesktopNotificationPermission,
+  getRosterTimezone,
+  requestDesktopNotificationPermission
+} from '../utils/desktopNotifications';
 import slackIcon from '../assets/slack-dark-theme-icon.png';
 
 const SettingsModal: React.FC = () => {
   const { 
     apiTokens, 
+    userPreferences,
     isSettingsModalOpen, 
     closeSettingsModal, 
     saveSettings, 
+    updateUserPreferences,
     testGithubToken, 
     testJiraToken,
     resetIdentity
@@ -22,23 +36,106 @@ const SettingsModal: React.FC = () => {
   });
   const [showSecurityInfo, setShowSecurityInfo] = useState(false);
 
+  // Team repo list is shared (server-side team config), not a personal setting
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+  const updateTeamConfig = useUpdateTeamConfig();
+  const { can } = useTeamPermissions();
+  const canEditTeamConfig = can('teamConfig:edit');
+  const configuredRepos = teamConfig.github.repos.join('\n');
+  const [reposText, setReposText] = useState('');
+  const [reposError, setReposError] = useState<string | null>(null);
+  const [attributionComments, setAttributionComments] = useState(teamConfig.jira.attributionComments);
+
+  // Desktop notifications are a personal, per-browser preference
+  const savedNotificationPrefs = userPreferences.desktopNotifications || DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES;
+  const [notificationPrefs, setNotificationPrefs] = useState<DesktopNotificationPreferences>(savedNotificationPrefs);
+  const [notificationPermission, setNotificationPermission] = useState(getDesktopNotificationPermission());
+
+  // Email digest subscription is stored server-side per team member
+  const memberName = getTeamMemberIdentity();
+  const { data: digestSettings } = useDigestSettings(isSettingsModalOpen && !!memberName);
+  const updateDigestSubscription = useUpdateDigestSubscription();
+  const savedDigestFrequency: DigestFrequency | 'off' = (memberName && digestSettings?.subscriptions[memberName]) || 'off';
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency | 'off'>(savedDigestFrequency);
+  const [digestError, setDigestError] = useState<string | null>(null);
+
+  // Personal tokens are linked/unlinked immediately (stored encrypted server-side), not on Save
+  const canWriteGitHub = can('github:write');
+  const canWriteJira = can('jira:write');
+  const { data: credentials } = useMemberCredentials(isSettingsModalOpen && (canWriteGitHub || canWriteJira));
+
   // Update form data when modal opens with current settings
   useEffect(() => {
     if (isSettingsModalOpen) {
       setFormData(apiTokens);
+      setReposText(configuredRepos);
+      setReposError(null);
+      setAttributionComments(teamConfig.jira.attributionComments);
+      setNotificationPrefs(savedNotificationPrefs);
+      setNotificationPermission(getDesktopNotificationPermission());
+      setDigestFrequency(savedDigestFrequency);
+      setDigestError(null);
       // Clear any previous test results
       setTestStates({
         github: { testing: false, result: null },
         jira: { testing: false, result: null }
       });
     }
-  }, [isSettingsModalOpen, apiTokens]);
+  }, [isSettingsModalOpen, apiTokens, configuredRepos, teamConfig.jira.attributionComments, savedNotificationPrefs, savedDigestFrequency]);
 
   const handleInputChange = (field: keyof ApiTokens, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleSave = () => {
+  // Permission has to be requested from the click itself, so it's asked for when the box is ticked
+  const handleToggleDesktopNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      setNotificationPrefs(prev => ({ ...prev, enabled: false }));
+      return;
+    }
+    const permission = await requestDesktopNotificationPermission();
+    setNotificationPermission(permission);
+    if (permission === 'granted') {
+      setNotificationPrefs(prev => ({ ...prev, enabled: true, enabledAt: prev.enabled ? prev.enabledAt : Date.now() }));
+    }
+  };
+
+  const handleOpenDigest = (format: 'html' | 'markdown') => {
+    if (!memberName) return;
+    setDigestError(null);
+    openDigest(memberName, format).catch(error => {
+      setDigestError(error instanceof Error ? error.message : 'Failed to load digest');
+    });
+  };
+
+  const handleSave = async () => {
+    const repos = reposText.split(/[\s,]+/).map(r => r.trim()).filter(Boolean);
+    const reposChanged = repos.join('\n') !== configuredRepos;
+    const attributionChanged = attributionComments !== teamConfig.jira.attributionComments;
+    if (canEditTeamConfig && (reposChanged || attributionChanged)) {
+      try {
+        await updateTeamConfig.mutateAsync({
+          ...(reposChanged && { github: { repos } }),
+          ...(attributionChanged && { jira: { ...teamConfig.jira, attributionComments } })
+        });
+      } catch (error) {
+        setReposError(error instanceof Error ? error.message : 'Failed to update team repositories');
+        return;
+      }
+    }
+
+    if (memberName && digestFrequency !== savedDigestFrequency) {
+      try {
+        await updateDigestSubscription.mutateAsync({ memberName, frequency: digestFrequency });
+      } catch (error) {
+        setDigestError(error instanceof Error ? error.message : 'Failed to update digest subscription');
+        return;
+      }
+    }
+
+    if (JSON.stringify(notificationPrefs) !== JSON.stringify(savedNotificationPrefs)) {
+      updateUserPreferences({ desktopNotifications: notificationPrefs });
+    }
     saveSettings(formData);
   };
 
@@ -167,6 +264,43 @@ const SettingsModal: React.FC = () => {
             </div>
           </div>
 
+          {/* Personal GitHub token (per member, stored encrypted on the server) */}
+          {memberName && canWriteGitHub && credentials && (
+            <PersonalTokenField
+              service="github"
+              label="GitHub"
+              credential={credentials.github}
+              encryptionConfigured={credentials.encryptionConfigured}
+              identityVerified={credentials.identityVerified}
+              placeholder="ghp_... or github_pat_..."
+              help={<>
+                Optional - your reviews, thread replies and resolves from the dashboard are made as you, and you can approve or request changes.
+                Needs the <code>repo</code> scope (or pull request write access); it is encrypted on the server and never sent back to the browser.
+              </>}
+            />
+          )}
+
+          {/* Team GitHub Repositories (shared) */}
+          <div className="form-group">
+            <label htmlFor="team-repos">Team GitHub Repositories:</label>
+            <textarea
+              id="team-repos"
+              rows={Math.max(2, reposText.split('\n').length)}
+              placeholder="owner/repo (one per line)"
+              value={reposText}
+              readOnly={!canEditTeamConfig}
+              onChange={(e) => {
+                setReposText(e.target.value);
+                setReposError(null);
+              }}
+            />
+            {reposError && <div className="form-error">❌ {reposError}</div>}
+            <div className="help-text">
+              <small>Shared by the whole team - scopes My Code Reviews, My PRs, Reviewer Workload and Quick Find (the first repo is the Quick Find default)</small>
+              {!canEditTeamConfig && <small> · Only team leads and admins can change the repositories</small>}
+            </div>
+          </div>
+
           {/* JIRA Service Account Status */}
           <div className="form-group">
             <label>JIRA Connection:</label>
@@ -193,6 +327,22 @@ const SettingsModal: React.FC = () => {
             </div>
           </div>
 
+          {/* Personal JIRA token (per member, stored encrypted on the server) */}
+          {memberName && canWriteJira && credentials && (
+            <PersonalTokenField
+              service="jira"
+              label="JIRA"
+              credential={credentials.jira}
+              encryptionConfigured={credentials.encryptionConfigured}
+              identityVerified={credentials.identityVerified}
+              placeholder="JIRA personal access token"
+              help={<>
+                Optional - field edits, status changes and comments you make from the dashboard show up in JIRA as you instead of the shared account.
+                Create one under Profile → Personal Access Tokens; it is encrypted on the server and never sent back to the browser.
+              </>}
+            />
+          )}
+
           {/* JIRA Username (Email) */}
           <div className="form-group">
             <label htmlFor="jira-username">Your JIRA Email:</label>
@@ -207,6 +357,126 @@ const SettingsModal: React.FC = () => {
               <small>Your Red Hat email - used to find JIRA tickets assigned to you</small>
             </div>
           </div>
+
+          {/* JIRA attribution comments (shared team config) */}
+          <div className="form-group">
+            <label>JIRA Edit Attribution:</label>
+            <label className="desktop-notification-option">
+              <input
+                type="checkbox"
+                checked={attributionComments}
+                disabled={!canEditTeamConfig}
+                onChange={(e) => setAttributionComments(e.target.checked)}
+              />
+              Add a "(via dashboard by &lt;name&gt;)" comment when a field is edited from the dashboard
+            </label>
+            <div className="help-text">
+              <small>Edits use the shared server token, so JIRA history shows the service account - every edit is also recorded in the Change Log tab</small>
+              {!canEditTeamConfig && <small> · Only team leads and admins can change this</small>}
+            </div>
+          </div>
+
+          {/* Desktop Notifications (personal, per browser) */}
+          <div className="form-group">
+            <label>Desktop Notifications:</label>
+            <label className="desktop-notification-option">
+              <input
+                type="checkbox"
+                checked={notificationPrefs.enabled}
+                disabled={notificationPermission === 'unsupported'}
+                onChange={(e) => handleToggleDesktopNotifications(e.target.checked)}
+              />
+              Show browser notifications for new activity
+            </label>
+            {notificationPermission === 'denied' && (
+              <div className="form-error">❌ Notifications are blocked for this site - allow them in your browser's site settings</div>
+            )}
+            {notificationPermission === 'unsupported' && (
+              <div className="form-error">❌ This browser doesn't support desktop notifications</div>
+            )}
+            {notificationPrefs.enabled && (
+              <div className="desktop-notification-options">
+                {DESKTOP_NOTIFICATION_EVENTS.map(event => (
+                  <label key={event.id} className="desktop-notification-option">
+                    <input
+                      type="checkbox"
+                      checked={notificationPrefs.events[event.id]}
+                      onChange={(e) => setNotificationPrefs(prev => ({
+                        ...prev,
+                        events: { ...prev.events, [event.id]: e.target.checked }
+                      }))}
+                    />
+                    {event.label}
+                  </label>
+                ))}
+                <label className="desktop-notification-option">
+                  <input
+                    type="checkbox"
+                    checked={notificationPrefs.quietHours.enabled}
+                    onChange={(e) => setNotificationPrefs(prev => ({
+                      ...prev,
+                      quietHours: { ...prev.quietHours, enabled: e.target.checked }
+                    }))}
+                  />
+                  Quiet hours from
+                  <input
+                    type="time"
+                    className="desktop-notification-time"
+                    value={notificationPrefs.quietHours.start}
+                    disabled={!notificationPrefs.quietHours.enabled}
+                    onChange={(e) => setNotificationPrefs(prev => ({
+                      ...prev,
+                      quietHours: { ...prev.quietHours, start: e.target.value }
+                    }))}
+                  />
+                  to
+                  <input
+                    type="time"
+                    className="desktop-notification-time"
+                    value={notificationPrefs.quietHours.end}
+                    disabled={!notificationPrefs.quietHours.enabled}
+                    onChange={(e) => setNotificationPrefs(prev => ({
+                      ...prev,
+                      quietHours: { ...prev.quietHours, end: e.target.value }
+                    }))}
+                  />
+                </label>
+              </div>
+            )}
+            <div className="help-text">
+              <small>Quiet hours use your roster timezone ({getRosterTimezone()}). Each event notifies once, even with several dashboard tabs open</small>
+            </div>
+          </div>
+
+          {/* Email Digest (per team member, stored server-side) */}
+          {memberName && (
+            <div className="form-group">
+              <label htmlFor="digest-frequency">Email Digest:</label>
+              <div className="digest-settings-row">
+                <select
+                  id="digest-frequency"
+                  value={digestFrequency}
+                  onChange={(e) => setDigestFrequency(e.target.value as DigestFrequency | 'off')}
+                >
+                  <option value="off">Off</option>
+                  <option value="daily">Daily (weekdays)</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+                <button type="button" className="digest-link" onClick={() => handleOpenDigest('html')}>Preview</button>
+                <button type="button" className="digest-link" onClick={() => handleOpenDigest('markdown')}>Markdown</button>
+              </div>
+              {digestError && <div className="form-error">❌ {digestError}</div>}
+              {digestSettings && !digestSettings.smtpConfigured && (
+                <div className="form-error">⚠️ Email isn't configured on the server - the digest is only available via Preview</div>
+              )}
+              <div className="help-text">
+                <small>
+                  Review requests by age, your PRs with failing checks or needing a rebase, sprint tickets stuck in a status for {digestSettings?.staleDays ?? 3}+ days and new comments.
+                  {digestSettings && ` Sent at ${digestSettings.time} in your roster timezone${digestSettings.enabled ? '' : ' once the team enables the schedule'}.`}
+                </small>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="modal-footer">
@@ -237,8 +507,8 @@ const SettingsModal: React.FC = () => {
             <button className="btn btn-secondary" onClick={closeSettingsModal}>
               Cancel
             </button>
-            <button className="btn btn-primary" onClick={handleSave}>
-              Save
+            <button className="btn btn-primary" onClick={handleSave} disabled={updateTeamConfig.isPending || updateDigestSubscription.isPending}>
+              {updateTeamConfig.isPending || updateDigestSubscription.isPending ? 'Saving...' : 'Save'}
             </button>
           </div>
         </div>
@@ -311,11 +581,21 @@ const SettingsModal: React.FC = () => {
                     are stored on the server's persistent volume with automatic rotation.
                   </p>
                   <p style={{ marginTop: '8px', fontSize: '12px', color: '#9ca3af' }}>
-                    Admins can view audit data via: <code>/api/audit/stats</code>, <code>/api/audit/logs</code>, 
+                    Leads and admins can view audit data via: <code>/api/audit/stats</code>, <code>/api/audit/logs</code>, 
                     and <code>/api/audit/users</code>, or use the <code>scripts/audit-report.sh</code> CLI tool.
                   </p>
                 </section>
 
+                <section>
+                  <h4>🔐 Access Roles</h4>
+                  <p>
+                    Each roster entry has a dashboard access role. <strong>Viewers</strong> can only read;
+                    <strong> members</strong> can also update JIRA fields and edit their own roster entry;
+                    <strong> leads</strong> manage the roster, team settings, alerts and audit logs;
+                    <strong> admins</strong> can also delete members and assign access roles.
+                  </p>
+                </section>
+
                 <section>
                   <h4>🚀 Future: Red Hat SSO</h4>
                   <p>
@@ -325,6 +605,18 @@ const SettingsModal: React.FC = () => {
                   </p>
                 </section>
 
+                <section>
+                  <h4>🔑 Personal Tokens</h4>
+                  <p>
+                    Personal GitHub and JIRA tokens linked in Settings are only used for changes you make from the dashboard 
+                    (reviews, replies, field edits, status changes, comments) - everything you read still uses the shared tokens. 
+                    They are encrypted (AES-256-GCM) with a key held in Kubernetes Secrets before they are written to the 
+                    server's persistent volume, and they are never returned to the browser. Unlinking deletes them; a token that 
+                    has expired or is rejected is flagged for re-linking and is not replaced by the shared account. Tokens can 
+                    only be linked and used when you sign in through SSO, so nobody can pick your name and act as you.
+                  </p>
+                </section>
+
                 <section>
                   <h4>📁 Team Roster</h4>
                   <p>
@@ -8,6 +8,12 @@ import AssociatedJirasPanel from './AssociatedJirasPanel';
 import FeatureFlagsPanel from './FeatureFlagsPanel';
 import DocLinksPanel from './DocLinksPanel';
 import EpicsPanel from './EpicsPanel';
+import TeamSprintBoardPanel from './TeamSprintBoardPanel';
+import SprintReportPanel from './SprintReportPanel';
+import CycleTimePanel from './CycleTimePanel';
+import PRMetricsPanel from './PRMetricsPanel';
+import StandupPanel from './StandupPanel';
+import ChangeLogPanel from './ChangeLogPanel';
 import ReviewerWorkloadPanel from './ReviewerWorkloadPanel';
 import QuickFindJiraPanel from './QuickFindJiraPanel';
 import QuickFindPRPanel from './QuickFindPRPanel';
@@ -57,13 +63,13 @@ const SplitPanel: React.FC<SplitPanelProps> = ({ currentTab, quickFindMode }) =>
       setSelectedPR(undefined);
       setSelectedTicket(undefined); // Clear JIRA ticket selection
       setInvalidJiraIds([]); // Clear invalid JIRA IDs when switching tabs
-    } else if (currentTab === 'my-sprint-jiras') {
+    } else if (currentTab === 'my-sprint-jiras' || currentTab === 'team-sprint-board') {
       // Switching to JIRA tabs - clear PR selection AND JIRA ticket selection for clean slate
       setSelectedPR(undefined);
       setSelectedTicket(undefined); // Clear JIRA ticket selection to prevent stale Associated PRs
       setInvalidJiraIds([]); // Clear invalid JIRA IDs when switching tabs
-    } else if (currentTab === 'feature-flags' || currentTab === 'doc-links' || currentTab === 'epics' || currentTab === 'reviewers') {
-      // Feature flags, Doc Links, Epics, and Reviewers tabs - clear all selections
+    } else if (currentTab === 'feature-flags' || currentTab === 'doc-links' || currentTab === 'epics' || currentTab === 'reviewers' || currentTab === 'sprint-report' || currentTab === 'cycle-time' || currentTab === 'pr-metrics' || currentTab === 'standup' || currentTab === 'change-log') {
+      // Full-panel tabs (Feature Flags, Doc Links, Epics, Reviewers, Sprint Report, Cycle Time, PR Metrics, Standup) - clear all selections
       setSelectedPR(undefined);
       setSelectedTicket(undefined);
       setInvalidJiraIds([]);
@@ -96,6 +102,9 @@ const SplitPanel: React.FC<SplitPanelProps> = ({ currentTab, quickFindMode }) =>
       case 'my-sprint-jiras':
         return <JiraPanel onTicketSelect={handleTicketSelect} selectedTicket={selectedTicket} />;
 
+      case 'team-sprint-board':
+        return <TeamSprintBoardPanel onTicketSelect={handleTicketSelect} selectedTicket={selectedTicket} />;
+
       case 'my-code-reviews':
         return <PRPanel tabType="my-code-reviews" onPRSelect={handlePRSelect} selectedPR={selectedPR} invalidJiraIds={invalidJiraIds} />;
 
@@ -118,7 +127,7 @@ const SplitPanel: React.FC<SplitPanelProps> = ({ currentTab, quickFindMode }) =>
 
   const getRightPanelContent = () => {
     // JIRA tabs show Associated PRs
-    if (currentTab === 'my-sprint-jiras') {
+    if (currentTab === 'my-sprint-jiras' || currentTab === 'team-sprint-board') {
       return <AssociatedPRsPanel selectedTicket={selectedTicket} />;
     }
 
@@ -164,7 +173,8 @@ const SplitPanel: React.FC<SplitPanelProps> = ({ currentTab, quickFindMode }) =>
         >
           <div className="panel left-panel" style={{ width: `${leftWidth}%` }}>
             <QuickFindPRPanel 
-              prNumber={parseInt(quickFindMode.value, 10)} 
+              repoName={quickFindMode.value.split('#')[0]}
+              prNumber={parseInt(quickFindMode.value.split('#')[1], 10)} 
               onPRFound={setQuickFindSelectedPR}
               invalidJiraIds={quickFindInvalidJiraIds}
             />
@@ -210,6 +220,24 @@ const SplitPanel: React.FC<SplitPanelProps> = ({ currentTab, quickFindMode }) =>
     );
   }
 
+  // Sprint Report tab renders as full-width panel (no split)
+  if (currentTab === 'sprint-report') {
+    return (
+      <div className="full-panel">
+        <SprintReportPanel />
+      </div>
+    );
+  }
+
+  // Cycle Time tab renders as full-width panel (no split)
+  if (currentTab === 'cycle-time') {
+    return (
+      <div className="full-panel">
+        <CycleTimePanel />
+      </div>
+    );
+  }
+
   // Reviewers tab renders as full-width panel (no split)
   if (currentTab === 'reviewers') {
     return (
@@ -219,6 +247,33 @@ const SplitPanel: React.FC<SplitPanelProps> = ({ currentTab, quickFindMode }) =>
     );
   }
 
+  // PR Metrics tab renders as full-width panel (no split)
+  if (currentTab === 'pr-metrics') {
+    return (
+      <div className="full-panel">
+        <PRMetricsPanel />
+      </div>
+    );
+  }
+
+  // Standup tab renders as full-width panel (no split)
+  if (currentTab === 'standup') {
+    return (
+      <div className="full-panel">
+        <StandupPanel />
+      </div>
+    );
+  }
+
+  // Change Log tab renders as full-width panel (no split)
+  if (currentTab === 'change-log') {
+    return (
+      <div className="full-panel">
+        <ChangeLogPanel />
+      </div>
+    );
+  }
+
   return (
     <div 
       className={`split-panel ${isDragging ? 'dragging' : ''}`}
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useSprintReport, useLastUpdatedFormat, useTeamConfig } from '../hooks/useApiQueries';
+import type { SprintReportIssue } from '../hooks/useApiQueries';
+import { useSettings } from '../contexts/SettingsContext';
+import { formatJiraTimestamp } from '../utils/formatting';
+import { DEFAULT_TEAM_CONFIG, getJiraBrowseUrl } from '../utils/teamConfig';
+
+type BurndownUnit = 'issues' | 'points';
+
+const SprintReportPanel: React.FC = () => {
+  const [sprintId, setSprintId] = useState<number | null>(null);
+  const [unit, setUnit] = useState<BurndownUnit>('points');
+  const [expandedIssue, setExpandedIssue] = useState<string | null>(null);
+  const { data, isLoading, error, refetch, isFetching, dataUpdatedAt } = useSprintReport(sprintId);
+  const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
+  const { userPreferences } = useSettings();
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG } = useTeamConfig();
+
+  const renderIssueLink = (key: string) => (
+    <a href={getJiraBrowseUrl(teamConfig, key)} target="_blank" rel="noopener noreferrer" className="report-issue-link">
+      {key}
+    </a>
+  );
+
+  const renderIssueTable = (issues: SprintReportIssue[], extraColumn?: { label: string; render: (issue: SprintReportIssue) => React.ReactNode }) => (
+    <table className="report-table">
+      <thead>
+        <tr>
+          <th>Key</th>
+          <th>Summary</th>
+          <th>Status</th>
+          <th>Assignee</th>
+          <th className="num-col">Points</th>
+          {extraColumn && <th>{extraColumn.label}</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {issues.map(issue => (
+          <tr key={issue.key}>
+            <td>{renderIssueLink(issue.key)}</td>
+            <td className="report-summary-cell">{issue.summary}</td>
+            <td>{issue.status}</td>
+            <td>{issue.assignee}</td>
+            <td className="num-col">{issue.points || ''}</td>
+            {extraColumn && <td>{extraColumn.render(issue)}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const header = (
+    <div className="panel-header">
+      <h2>Sprint Report{data?.sprint ? ` — ${data.sprint.name}` : ''}</h2>
+      <div className="header-actions">
+        {data && data.boardSprints.length > 0 && (
+          <select
+            className="report-select"
+            value={sprintId ?? ''}
+            onChange={(e) => setSprintId(e.target.value ? parseInt(e.target.value, 10) : null)}
+          >
+            <option value="">Current sprint</option>
+            {data.boardSprints.map(s => (
+              <option key={s.id} value={s.id}>{s.name}{s.state === 'active' ? ' (active)' : ''}</option>
+            ))}
+          </select>
+        )}
+        <span className="last-updated">
+          Updated: {lastUpdated}
+          {isFetching && <span className="refreshing"> (refreshing...)</span>}
+        </span>
+        <button onClick={() => refetch()} className="refresh-btn" disabled={isFetching} title="Refresh data">
+          ↻
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="loading-state">
+          <div className="spinner" />
+          <p>Building sprint report...</p>
+          <p className="loading-hint">Replaying JIRA changelogs for every ticket in the sprint</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="error-state">
+          <p>❌ {error instanceof Error ? error.message : 'Failed to load sprint report'}</p>
+          <button onClick={() => refetch()} className="retry-btn">
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { sprint, summary } = data;
+  const remainingKey = unit === 'points' ? 'remainingPoints' : 'remainingIssues';
+  const idealKey = unit === 'points' ? 'idealPoints' : 'idealIssues';
+  const scopeKey = unit === 'points' ? 'scopePoints' : 'scopeIssues';
+
+  return (
+    <div className="report-panel">
+      {header}
+
+      <div className="sr-sprint-meta">
+        <span>📅 {formatJiraTimestamp(sprint.startDate, userPreferences.timezone)} → {formatJiraTimestamp(sprint.completeDate || sprint.endDate || '', userPreferences.timezone)}</span>
+        <span className={`sr-sprint-state ${sprint.state}`}>{sprint.state}</span>
+        {data.previousSprint && <span>⏮ Previous: {data.previousSprint.name}</span>}
+        {sprint.goal && <span className="sr-sprint-goal">🎯 {sprint.goal}</span>}
+      </div>
+
+      {/* Summary cards */}
+      <div className="report-summary">
+        <div className="report-summary-card">
+          <div className="report-summary-value">{summary.committedIssues}</div>
+          <div className="report-summary-label">Committed ({summary.committedPoints} pts)</div>
+        </div>
+        <div className="report-summary-card report-summary-added">
+          <div className="report-summary-value">+{summary.addedIssues}</div>
+          <div className="report-summary-label">Added ({summary.addedPoints} pts)</div>
+        </div>
+        <div className="report-summary-card report-summary-removed">
+          <div className="report-summary-value">−{summary.removedIssues}</div>
+          <div className="report-summary-label">Removed ({summary.removedPoints} pts)</div>
+        </div>
+        <div className="report-summary-card report-summary-completed">
+          <div className="report-summary-value">{summary.completedIssues}</div>
+          <div className="report-summary-label">Completed ({summary.completedPoints} pts)</div>
+        </div>
+        <div className="report-summary-card">
+          <div className="report-summary-value">{summary.remainingIssues}</div>
+          <div className="report-summary-label">Remaining ({summary.remainingPoints} pts)</div>
+        </div>
+        <div className="report-summary-card report-summary-carryover">
+          <div className="report-summary-value">{summary.carryOverIssues}</div>
+          <div className="report-summary-label">Carried over</div>
+        </div>
+      </div>
+      {summary.unestimatedIssues > 0 && (
+        <div className="report-hint">⚠️ {summary.unestimatedIssues} ticket{summary.unestimatedIssues > 1 ? 's have' : ' has'} no story points and count as 0 in the points burndown</div>
+      )}
+
+      {/* Burndown chart */}
+      <div className="report-section">
+        <div className="report-section-header">
+          <h3>Burndown</h3>
+          <div className="report-unit-toggle">
+            <button className={unit === 'points' ? 'active' : ''} onClick={() => setUnit('points')}>Story points</button>
+            <button className={unit === 'issues' ? 'active' : ''} onClick={() => setUnit('issues')}>Issues</button>
+          </div>
+        </div>
+        <div className="report-chart">
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={data.burndown} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+              <CartesianGrid stroke="#333" strokeDasharray="3 3" />
+              <XAxis dataKey="date" stroke="#9ca3af" fontSize={11} />
+              <YAxis stroke="#9ca3af" fontSize={11} allowDecimals={false} />
+              <Tooltip contentStyle={{ background: '#1a1a1a', border: '1px solid #444', color: '#e5e7eb' }} />
+              <Legend />
+              <Line type="linear" dataKey={idealKey} name="Ideal" stroke="#6b7280" strokeDasharray="6 4" dot={false} />
+              <Line type="stepAfter" dataKey={scopeKey} name="Scope" stroke="#a855f7" dot={false} connectNulls={false} />
+              <Line type="stepAfter" dataKey={remainingKey} name="Remaining" stroke="#60a5fa" strokeWidth={2} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Scope change */}
+      <div className="report-section">
+        <h3>Added after sprint start ({data.added.length})</h3>
+        {data.added.length > 0
+          ? renderIssueTable(data.added, { label: 'Added', render: (i) => formatJiraTimestamp(i.at || '', userPreferences.timezone) })
+          : <p className="report-empty">No scope added</p>}
+      </div>
+
+      <div className="report-section">
+        <h3>Removed after sprint start ({data.removed.length})</h3>
+        {data.removed.length > 0
+          ? renderIssueTable(data.removed, { label: 'Removed', render: (i) => formatJiraTimestamp(i.at || '', userPreferences.timezone) })
+          : <p className="report-empty">No scope removed</p>}
+      </div>
+
+      <div className="report-section">
+        <h3>Carried over ({data.carryOver.length})</h3>
+        {data.carryOver.length > 0
+          ? renderIssueTable(data.carryOver, { label: 'From sprint', render: (i) => i.fromSprint })
+          : <p className="report-empty">Nothing carried over from a previous sprint</p>}
+      </div>
+
+      {/* Status transitions */}
+      <div className="report-section">
+        <h3>Status transitions</h3>
+        <table className="report-table">
+          <thead>
+            <tr>
+              <th>Key</th>
+              <th>Summary</th>
+              <th>Status</th>
+              <th>Assignee</th>
+              <th className="num-col">Transitions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.issues.filter(i => i.inSprint).map(issue => (
+              <React.Fragment key={issue.key}>
+                <tr
+                  className="sr-clickable-row"
+                  onClick={() => setExpandedIssue(expandedIssue === issue.key ? null : issue.key)}
+                >
+                  <td>{expandedIssue === issue.key ? '▾' : '▸'} {renderIssueLink(issue.key)}</td>
+                  <td className="report-summary-cell">{issue.summary}</td>
+                  <td>{issue.status}</td>
+                  <td>{issue.assignee}</td>
+                  <td className="num-col">{issue.transitions.length}</td>
+                </tr>
+                {expandedIssue === issue.key && (
+                  <tr className="sr-transitions-row">
+                    <td colSpan={5}>
+                      {issue.transitions.length === 0 ? (
+                        <span className="report-empty">No status changes recorded</span>
+                      ) : (
+                        <ul className="sr-transitions">
+                          {issue.transitions.map((t, idx) => (
+                            <li key={idx}>
+                              <span className="sr-transition-time">{formatJiraTimestamp(t.at, userPreferences.timezone)}</span>
+                              {' '}{t.from} → <strong>{t.to}</strong>
+                              {t.author && <span className="sr-transition-author"> by {t.author}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SprintReportPanel;
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { useStandup, useLastUpdatedFormat } from '../hooks/useApiQueries';
+import type { StandupMember, StandupPR } from '../hooks/useApiQueries';
+import { getTeamMemberIdentity } from '../utils/auditFetch';
+import { getRepoShortName } from '../utils/teamConfig';
+
+const REVIEW_STATE_LABELS: Record<string, string> = {
+  approved: 'approved',
+  changes_requested: 'requested changes',
+  commented: 'commented',
+  dismissed: 'dismissed'
+};
+
+const prLabel = (pr: StandupPR) => `${getRepoShortName(pr.repo)}#${pr.number}`;
+
+// Comments grouped per ticket - "commented (3)" reads better in a standup than three lines
+const groupJiraComments = (member: StandupMember) => {
+  const groups = new Map<string, { key: string; summary: string; url: string; count: number }>();
+  member.jira.comments.forEach(c => {
+    const existing = groups.get(c.key);
+    if (existing) existing.count++;
+    else groups.set(c.key, { key: c.key, summary: c.summary, url: c.url, count: 1 });
+  });
+  return Array.from(groups.values());
+};
+
+const describeReview = (states: string[], comments: number) => {
+  const parts = states.map(s => REVIEW_STATE_LABELS[s] || s);
+  if (comments > 0) parts.push(`${comments} comment${comments === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
+
+const hasActivity = (member: StandupMember) =>
+  member.jira.transitions.length + member.jira.comments.length
+  + member.github.opened.length + member.github.merged.length + member.github.reviewed.length > 0;
+
+// Standup-friendly Markdown: one block per member with JIRA, GitHub and Blocked lists
+const formatStandupMarkdown = (members: StandupMember[]): string => members.map(member => {
+  const lines = [`### ${member.name} — since ${member.sinceLabel}`, '', '**JIRA**'];
+  const jiraLines = [
+    ...member.jira.transitions.map(t => `- [${t.key}](${t.url}) ${t.summary}: ${t.from} → ${t.to}`),
+    ...groupJiraComments(member).map(c => `- [${c.key}](${c.url}) ${c.summary}: commented${c.count > 1 ? ` (${c.count})` : ''}`)
+  ];
+  lines.push(...(jiraLines.length ? jiraLines : ['- No ticket updates']), '', '**GitHub**');
+  const githubLines = [
+    ...member.github.opened.map(pr => `- Opened [${prLabel(pr)}](${pr.url}) ${pr.title}${pr.draft ? ' (draft)' : ''}`),
+    ...member.github.merged.map(pr => `- Merged [${prLabel(pr)}](${pr.url}) ${pr.title}`),
+    ...member.github.reviewed.map(pr => `- Reviewed [${prLabel(pr)}](${pr.url}) ${pr.title} — ${describeReview(pr.states, pr.comments)}`)
+  ];
+  lines.push(...(githubLines.length ? githubLines : ['- No PR activity']), '', '**Blocked**');
+  lines.push(...(member.blocked.length
+    ? member.blocked.map(b => `- [${b.key}](${b.url}) ${b.summary}${b.reason ? ` — ${b.reason}` : ''}`)
+    : ['- Nothing blocked']));
+  return lines.join('\n');
+}).join('\n\n');
+
+const StandupPanel: React.FC = () => {
+  const [teamMode, setTeamMode] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const memberName = getTeamMemberIdentity();
+  const { data, isLoading, error, refetch, isFetching, dataUpdatedAt, refresh } = useStandup(teamMode);
+  const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
+
+  const handleCopy = async () => {
+    if (!data) return;
+    try {
+      await navigator.clipboard.writeText(formatStandupMarkdown(data.members));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy standup:', err);
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  const header = (
+    <div className="panel-header">
+      <h2>Standup</h2>
+      <div className="header-actions">
+        <div className="report-unit-toggle">
+          <button className={!teamMode ? 'active' : ''} onClick={() => setTeamMode(false)} disabled={!memberName}>Me</button>
+          <button className={teamMode ? 'active' : ''} onClick={() => setTeamMode(true)}>Team</button>
+        </div>
+        <button className="standup-copy-btn" onClick={handleCopy} disabled={!data} title="Copy as Markdown">
+          {copied ? '✓ Copied' : '📋 Copy as Markdown'}
+        </button>
+        <span className="last-updated">
+          Updated: {lastUpdated}
+          {(isFetching || refresh.isPending) && <span className="refreshing"> (refreshing...)</span>}
+        </span>
+        <button onClick={() => refresh.mutate()} className="refresh-btn" disabled={isFetching || refresh.isPending} title="Refresh data">
+          ↻
+        </button>
+      </div>
+    </div>
+  );
+
+  if (!memberName && !teamMode) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="error-state">
+          <p>Choose who you are (Settings → Log Out to pick again) to see your standup, or switch to Team</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="loading-state">
+          <div className="spinner" />
+          <p>Collecting activity since the last working day...</p>
+          {teamMode && <p className="loading-hint">Fetching GitHub activity for every roster member</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="report-panel">
+        {header}
+        <div className="error-state">
+          <p>❌ {error instanceof Error ? error.message : 'Failed to load standup'}</p>
+          <button onClick={() => refetch()} className="retry-btn">
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const failedSources = Object.entries(data.sources).filter(([, source]) => source.error);
+  const quietMembers = data.team ? data.members.filter(m => !hasActivity(m) && m.blocked.length === 0) : [];
+  const shownMembers = data.members.filter(m => !quietMembers.includes(m));
+
+  return (
+    <div className="report-panel">
+      {header}
+
+      {failedSources.map(([name, source]) => (
+        <div key={name} className="report-hint">⚠️ {name === 'github' ? 'GitHub' : 'JIRA'}: {source.error}</div>
+      ))}
+
+      {shownMembers.map(member => (
+        <div key={member.name} className="standup-member">
+          <h3>
+            {member.name}
+            <span className="standup-since">since {member.sinceLabel} ({member.timezone})</span>
+          </h3>
+          <div className="standup-columns">
+            <div className="standup-column">
+              <h4>JIRA</h4>
+              {member.jira.transitions.length === 0 && member.jira.comments.length === 0 && (
+                <p className="report-empty">No ticket updates</p>
+              )}
+              <ul>
+                {member.jira.transitions.map(t => (
+                  <li key={`${t.key}-${t.at}`}>
+                    <a href={t.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">{t.key}</a>{' '}
+                    {t.summary}
+                    <div className="standup-detail">{t.from} → {t.to}</div>
+                  </li>
+                ))}
+                {groupJiraComments(member).map(c => (
+                  <li key={`comment-${c.key}`}>
+                    <a href={c.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">{c.key}</a>{' '}
+                    {c.summary}
+                    <div className="standup-detail">💬 commented{c.count > 1 ? ` (${c.count})` : ''}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="standup-column">
+              <h4>GitHub</h4>
+              {member.github.opened.length + member.github.merged.length + member.github.reviewed.length === 0 && (
+                <p className="report-empty">No PR activity</p>
+              )}
+              <ul>
+                {member.github.opened.map(pr => (
+                  <li key={`opened-${pr.url}`}>
+                    <span className="standup-tag opened">Opened</span>
+                    <a href={pr.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">{prLabel(pr)}</a>{' '}
+                    {pr.title}{pr.draft && ' (draft)'}
+                  </li>
+                ))}
+                {member.github.merged.map(pr => (
+                  <li key={`merged-${pr.url}`}>
+                    <span className="standup-tag merged">Merged</span>
+                    <a href={pr.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">{prLabel(pr)}</a>{' '}
+                    {pr.title}
+                  </li>
+                ))}
+                {member.github.reviewed.map(pr => (
+                  <li key={`reviewed-${pr.url}`}>
+                    <span className="standup-tag reviewed">Reviewed</span>
+                    <a href={pr.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">{prLabel(pr)}</a>{' '}
+                    {pr.title}
+                    <div className="standup-detail">
+                      {describeReview(pr.states, pr.comments)} · {pr.authorName || `@${pr.author}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="standup-column">
+              <h4>Blocked</h4>
+              {member.blocked.length === 0 ? (
+                <p className="report-empty">Nothing blocked</p>
+              ) : (
+                <ul>
+                  {member.blocked.map(b => (
+                    <li key={b.key} className="standup-blocked">
+                      <a href={b.url} target="_blank" rel="noopener noreferrer" className="report-issue-link">{b.key}</a>{' '}
+                      {b.summary}
+                      <div className="standup-detail">🚫 {b.status}{b.reason && ` — ${b.reason}`}</div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {quietMembers.length > 0 && (
+        <div className="report-hint">No activity since the last working day: {quietMembers.map(m => m.name).join(', ')}</div>
+      )}
+    </div>
+  );
+};
+
+export default StandupPanel;
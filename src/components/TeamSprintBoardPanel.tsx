@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { useTeamSprintBoard, useLastUpdatedFormat } from '../hooks/useApiQueries';
+import type { TeamSprintTicket } from '../hooks/useApiQueries';
+import JiraCard from './JiraCard';
+import jiraLogo from '../assets/jiraLogo.png';
+
+interface TeamSprintBoardPanelProps {
+  onTicketSelect?: (ticketKey: string) => void;
+  selectedTicket?: string;
+}
+
+interface Swimlane {
+  id: string;
+  label: string;
+  tickets: TeamSprintTicket[];
+}
+
+const UNASSIGNED_LANE = '__unassigned__';
+const OTHER_LANE = '__other__';
+
+const TeamSprintBoardPanel: React.FC<TeamSprintBoardPanelProps> = ({ onTicketSelect, selectedTicket }) => {
+  const { data, isLoading, error, refetch, isFetching, dataUpdatedAt } = useTeamSprintBoard();
+  const lastUpdated = useLastUpdatedFormat(dataUpdatedAt);
+  const [unassignedOnly, setUnassignedOnly] = useState(false);
+  const [hideEmptyLanes, setHideEmptyLanes] = useState(true);
+
+  // One swimlane per roster entry (roster order), then Unassigned, then assignees who aren't on the roster
+  const swimlanes = useMemo((): Swimlane[] => {
+    if (!data) return [];
+
+    const lanes: Swimlane[] = data.members.map(m => ({
+      id: m.name,
+      label: m.name,
+      tickets: data.tickets.filter(t => t.member === m.name)
+    }));
+    lanes.push({
+      id: UNASSIGNED_LANE,
+      label: 'Unassigned',
+      tickets: data.tickets.filter(t => t.assignee === 'Unassigned')
+    });
+    lanes.push({
+      id: OTHER_LANE,
+      label: 'Not on roster',
+      tickets: data.tickets.filter(t => !t.member && t.assignee !== 'Unassigned')
+    });
+
+    const visibleLanes = unassignedOnly ? lanes.filter(l => l.id === UNASSIGNED_LANE) : lanes;
+    return (hideEmptyLanes || unassignedOnly) ? visibleLanes.filter(l => l.tickets.length > 0) : visibleLanes;
+  }, [data, unassignedOnly, hideEmptyLanes]);
+
+  // Counts per status column (respecting the unassigned filter)
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    swimlanes.forEach(lane => {
+      lane.tickets.forEach(t => {
+        counts[t.status] = (counts[t.status] || 0) + 1;
+      });
+    });
+    return counts;
+  }, [swimlanes]);
+
+  const unassignedCount = data?.tickets.filter(t => t.assignee === 'Unassigned').length || 0;
+  const statuses = data?.statuses || [];
+
+  return (
+    <div className="panel-content">
+      <div className="panel-header">
+        <h3>
+          <img src={jiraLogo} alt="JIRA" className="panel-icon" /> Team Sprint Board
+          {data?.sprintName && <span className="sprint-board-sprint-name"> • {data.sprintName}</span>}
+        </h3>
+        <div className="last-updated-container">
+          <span className="last-updated">Last Updated: {lastUpdated} • updates every 5 minutes</span>
+          <button
+            className={`refresh-btn ${isFetching ? 'refreshing' : ''}`}
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title="Refresh data"
+          >
+            🔄
+          </button>
+        </div>
+      </div>
+
+      <div className="panel-body">
+        {isLoading ? (
+          <div className="loading">
+            Loading team sprint board...
+          </div>
+        ) : error ? (
+          <div className="error-state">
+            <p>❌ Error loading team sprint board: {error.message}</p>
+          </div>
+        ) : !data || data.tickets.length === 0 ? (
+          <div className="empty-state">
+            <p><img src={jiraLogo} alt="JIRA" className="inline-icon" /> No JIRA tickets found in open sprints</p>
+          </div>
+        ) : (
+          <>
+            <div className="sprint-board-toolbar">
+              <div className="sprint-board-counts">
+                {statuses.map(status => (
+                  <span key={status.name} className={`sprint-board-count category-${status.category}`}>
+                    {status.name}: <strong>{statusCounts[status.name] || 0}</strong>
+                  </span>
+                ))}
+              </div>
+              <div className="sprint-board-filters">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={unassignedOnly}
+                    onChange={(e) => setUnassignedOnly(e.target.checked)}
+                  />
+                  Unassigned in sprint ({unassignedCount})
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={hideEmptyLanes}
+                    onChange={(e) => setHideEmptyLanes(e.target.checked)}
+                    disabled={unassignedOnly}
+                  />
+                  Hide empty lanes
+                </label>
+              </div>
+            </div>
+
+            <div className="sprint-board" style={{ gridTemplateColumns: `repeat(${statuses.length}, minmax(240px, 1fr))` }}>
+              {statuses.map(status => (
+                <div key={status.name} className={`sprint-board-column-header category-${status.category}`}>
+                  {status.name} <span className="sprint-board-column-count">{statusCounts[status.name] || 0}</span>
+                </div>
+              ))}
+
+              {swimlanes.map(lane => (
+                <React.Fragment key={lane.id}>
+                  <div className="sprint-board-lane-header" style={{ gridColumn: `1 / span ${statuses.length}` }}>
+                    {lane.label} <span className="sprint-board-lane-count">({lane.tickets.length})</span>
+                  </div>
+                  {statuses.map(status => (
+                    <div key={`${lane.id}-${status.name}`} className="sprint-board-cell">
+                      {lane.tickets
+                        .filter(t => t.status === status.name)
+                        .map(ticket => (
+                          <JiraCard
+                            key={ticket.key}
+                            ticket={ticket}
+                            compact={true}
+                            onClick={() => onTicketSelect?.(ticket.key)}
+                            isSelected={selectedTicket === ticket.key}
+                          />
+                        ))}
+                    </div>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+
+            {swimlanes.length === 0 && (
+              <div className="empty-state">
+                <p>{unassignedOnly ? '🎉 Every sprint ticket has an assignee' : 'No tickets match the current filters'}</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamSprintBoardPanel;
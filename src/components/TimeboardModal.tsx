@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useSettings } from '../contexts/SettingsContext';
-import { auditFetch, identifyUser } from '../utils/auditFetch';
+import { auditFetch, identifyUser, getTeamMemberIdentity } from '../utils/auditFetch';
+import { useTeamPermissions, useCurrentIdentity } from '../hooks/useApiQueries';
+import type { AccessRole } from '../hooks/useApiQueries';
 import slackIcon from '../assets/slack-dark-theme-icon.png';
 
 interface TeamMember {
@@ -9,8 +12,19 @@ interface TeamMember {
   tz: string;
   github?: string;  // GitHub username
   jira?: string;    // JIRA email or username
+  accessRole?: AccessRole | ''; // Dashboard permissions; unset = derived from role ('' clears it on save)
 }
 
+// 'denied' = the server's role check refused it (no localStorage fallback); 'unavailable' = API unreachable
+type RosterApiResult = 'saved' | 'denied' | 'unavailable';
+
+const ACCESS_ROLE_LABELS: Record<AccessRole, string> = {
+  viewer: 'Viewer (read-only)',
+  member: 'Member',
+  lead: 'Lead',
+  admin: 'Admin'
+};
+
 interface TimeDisplayMember extends TeamMember {
   local: string;
   offset: string;
@@ -25,6 +39,11 @@ interface TimeboardModalProps {
 
 const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
   const { updateUserPreferences, apiTokens, saveSettings } = useSettings();
+  const queryClient = useQueryClient();
+  const { can } = useTeamPermissions();
+  // Signed in through the SSO proxy - the server ignores a picked identity, so picking is disabled
+  const { data: currentIdentity } = useCurrentIdentity();
+  const ssoMemberName = currentIdentity?.trusted ? currentIdentity.member?.name || null : null;
   const [members, setMembers] = useState<TeamMember[]>([]);
   const [searchFilter, setSearchFilter] = useState('');
   const [referenceMode, setReferenceMode] = useState<'now' | 'ref'>('now');
@@ -114,7 +133,8 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
               role: m.role, 
               tz: m.tz,
               github: m.github || undefined,
-              jira: m.jira || undefined
+              jira: m.jira || undefined,
+              accessRole: m.accessRole || undefined
             }))
             .filter((m: any) => isValidTimezone(m.tz));
           setMembers(cleaned);
@@ -187,8 +207,13 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  // Role check failures are reported rather than silently saved to this browser only
+  const reportAccessDenied = (error: { error?: string; details?: string }) => {
+    alert(`${error.error || 'Not allowed'}${error.details ? `\n\n${error.details}` : ''}`);
+  };
+
   // Add a member via API (or localStorage fallback)
-  const addMemberApi = async (member: TeamMember): Promise<boolean> => {
+  const addMemberApi = async (member: TeamMember): Promise<RosterApiResult> => {
     try {
       const response = await auditFetch('/api/team/members', {
         method: 'POST',
@@ -197,22 +222,26 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
       });
       if (response.ok) {
         console.log(`✅ Added member ${member.name} via API`);
-        return true;
+        return 'saved';
       }
       const error = await response.json();
       console.error('❌ Failed to add member:', error);
+      if (response.status === 401 || response.status === 403) {
+        reportAccessDenied(error);
+        return 'denied';
+      }
       if (response.status === 409) {
         alert(`Member "${member.name}" already exists`);
       }
-      return false;
+      return 'unavailable';
     } catch (error) {
       console.warn('🕐 API not available, using localStorage fallback');
-      return false;
+      return 'unavailable';
     }
   };
 
   // Update a member via API (or localStorage fallback)
-  const updateMemberApi = async (originalName: string, member: TeamMember): Promise<boolean> => {
+  const updateMemberApi = async (originalName: string, member: TeamMember): Promise<RosterApiResult> => {
     try {
       const response = await auditFetch(`/api/team/members/${encodeURIComponent(originalName)}`, {
         method: 'PUT',
@@ -221,33 +250,41 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
       });
       if (response.ok) {
         console.log(`✅ Updated member ${member.name} via API`);
-        return true;
+        return 'saved';
       }
       const error = await response.json();
       console.error('❌ Failed to update member:', error);
-      return false;
+      if (response.status === 401 || response.status === 403) {
+        reportAccessDenied(error);
+        return 'denied';
+      }
+      return 'unavailable';
     } catch (error) {
       console.warn('🕐 API not available, using localStorage fallback');
-      return false;
+      return 'unavailable';
     }
   };
 
   // Delete a member via API (or localStorage fallback)
-  const deleteMemberApi = async (name: string): Promise<boolean> => {
+  const deleteMemberApi = async (name: string): Promise<RosterApiResult> => {
     try {
       const response = await auditFetch(`/api/team/members/${encodeURIComponent(name)}`, {
         method: 'DELETE'
       });
       if (response.ok) {
         console.log(`✅ Deleted member ${name} via API`);
-        return true;
+        return 'saved';
       }
       const error = await response.json();
       console.error('❌ Failed to delete member:', error);
-      return false;
+      if (response.status === 401 || response.status === 403) {
+        reportAccessDenied(error);
+        return 'denied';
+      }
+      return 'unavailable';
     } catch (error) {
       console.warn('🕐 API not available, using localStorage fallback');
-      return false;
+      return 'unavailable';
     }
   };
 
@@ -466,7 +503,8 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
       setDraftMember({ 
         ...members[idx],
         github: members[idx].github || '',
-        jira: members[idx].jira || ''
+        jira: members[idx].jira || '',
+        accessRole: members[idx].accessRole || ''
       });
     }
   };
@@ -532,8 +570,8 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
     const memberName = members[index].name;
     if (confirm(`Delete ${memberName}?`)) {
       // Try API first
-      const apiSuccess = await deleteMemberApi(memberName);
-      if (apiSuccess) {
+      const result = await deleteMemberApi(memberName);
+      if (result !== 'unavailable') {
         // Reload from server to get updated list
         await loadMembers();
       } else {
@@ -551,7 +589,7 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
   };
 
   const saveDraft = async () => {
-    const { name, role, tz, github, jira } = draftMember;
+    const { name, role, tz, github, jira, accessRole } = draftMember;
     if (!name.trim() || !role.trim() || !tz) {
       alert('Please fill in Name, Role, and Timezone');
       return;
@@ -565,13 +603,15 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
       role: role.trim(), 
       tz,
       github: github?.trim() || undefined,
-      jira: jira?.trim() || undefined
+      jira: jira?.trim() || undefined,
+      // Only admins see the access role field; omitting it leaves the stored role untouched
+      ...(can('roster:assignRoles') && { accessRole: editingIndex === -1 ? accessRole || undefined : accessRole || '' })
     };
     
     if (editingIndex === -1) {
       // Adding new member
-      const apiSuccess = await addMemberApi(trimmed);
-      if (apiSuccess) {
+      const result = await addMemberApi(trimmed);
+      if (result !== 'unavailable') {
         await loadMembers(); // Reload from server
       } else {
         // Fallback to localStorage
@@ -581,9 +621,11 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
     } else if (editingIndex !== null && editingIndex >= 0) {
       // Updating existing member
       const originalName = members[editingIndex].name;
-      const apiSuccess = await updateMemberApi(originalName, trimmed);
-      if (apiSuccess) {
+      const result = await updateMemberApi(originalName, trimmed);
+      if (result !== 'unavailable') {
         await loadMembers(); // Reload from server
+        // Access roles (or the name they're keyed by) may have changed
+        queryClient.invalidateQueries({ queryKey: ['team', 'permissions'] });
       } else {
         // Fallback to localStorage
         const newMembers = [...members];
@@ -596,6 +638,23 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
 
   // (Removed legacy timezoneOptions; using allTimezones instead)
 
+  // Admin-only field on the add/edit rows ('' = default derived from the job title)
+  const renderAccessRoleField = () => can('roster:assignRoles') && (
+    <div>
+      <label style={{ display: 'block', fontSize: 11, color: '#9ca3af', marginBottom: 4 }}>Dashboard access</label>
+      <select
+        value={draftMember.accessRole || ''}
+        onChange={(e) => setDraftMember(prev => ({ ...prev, accessRole: e.target.value as AccessRole | '' }))}
+        style={{ padding: '6px 8px', width: '100%', boxSizing: 'border-box' }}
+      >
+        <option value="">Default (from role)</option>
+        {(Object.keys(ACCESS_ROLE_LABELS) as AccessRole[]).map(r => (
+          <option key={r} value={r}>{ACCESS_ROLE_LABELS[r]}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -652,7 +711,10 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
               <button 
                 className={getIdentityButtonClass()}
                 onClick={handleIdentityButtonClick}
-                title={selectedIdentity ? `You are identified as ${selectedIdentity.name}` : 'Select which team member you are'}
+                disabled={!!ssoMemberName}
+                title={ssoMemberName
+                  ? `Signed in via SSO as ${ssoMemberName}`
+                  : selectedIdentity ? `You are identified as ${selectedIdentity.name}` : 'Select which team member you are'}
               >
                 {getIdentityButtonText()}
                 {!selectedIdentity && <span className="identity-alert">!</span>}
@@ -679,17 +741,19 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
                     {refreshing ? '⏳ Refreshing...' : refreshStatus === 'success' ? '✅ Refreshed!' : '🔄 Refresh'}
                   </button>
                   
-                  <button
-                    className="timeboard-btn timeboard-btn-primary timeboard-btn-small"
-                    title="Add a new team member"
-                    onClick={() => {
-                      setEditingIndex(-1);
-                      setDraftMember({ name: '', role: '', tz: 'America/New_York', github: '', jira: '' });
-                    }}
-                    disabled={editingIndex !== null}
-                  >
-                    + Add
-                  </button>
+                  {can('roster:edit') && (
+                    <button
+                      className="timeboard-btn timeboard-btn-primary timeboard-btn-small"
+                      title="Add a new team member"
+                      onClick={() => {
+                        setEditingIndex(-1);
+                        setDraftMember({ name: '', role: '', tz: 'America/New_York', github: '', jira: '', accessRole: '' });
+                      }}
+                      disabled={editingIndex !== null}
+                    >
+                      + Add
+                    </button>
+                  )}
                 </>
               )}
             </div>
@@ -827,6 +891,7 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
                           maxLength={60}
                         />
                       </div>
+                      {renderAccessRoleField()}
                       {/* Action Buttons */}
                       <div style={{ display: 'flex', gap: 8, alignItems: 'end', paddingBottom: 2 }}>
                         <button className="timeboard-btn timeboard-btn-primary timeboard-btn-small" onClick={saveDraft}>Save</button>
@@ -915,10 +980,14 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
                                 placeholder="e.g., user@redhat.com"
                                 value={draftMember.jira || ''}
                                 onChange={(e) => setDraftMember(prev => ({ ...prev, jira: e.target.value }))}
+                                // Behind SSO it links the login to this entry, so the server won't let you change your own
+                                readOnly={member.name === ssoMemberName}
+                                title={member.name === ssoMemberName ? 'Linked to your SSO login - ask a lead to change it' : undefined}
                                 style={{ padding: '6px 8px', width: '100%', boxSizing: 'border-box' }}
                                 maxLength={60}
                               />
                             </div>
+                            {renderAccessRoleField()}
                             {/* Action Buttons */}
                             <div style={{ display: 'flex', gap: 8, alignItems: 'end', paddingBottom: 2 }}>
                               <button className="timeboard-btn timeboard-btn-primary timeboard-btn-small" onClick={saveDraft}>Save</button>
@@ -931,31 +1000,40 @@ const TimeboardModal: React.FC<TimeboardModalProps> = ({ isOpen, onClose }) => {
                     return (
                       <>
                         <td style={{ width: '20%' }}>{member.name}</td>
-                        <td className="muted" style={{ width: '10%' }}>{member.role}</td>
+                        <td className="muted" style={{ width: '10%' }}>
+                          {member.role}
+                          {member.accessRole && member.accessRole !== 'member' && (
+                            <span className={`timeboard-access-badge ${member.accessRole}`}>{member.accessRole}</span>
+                          )}
+                        </td>
                         <td className="mono">{member.tz}</td>
                         <td className={`mono ${member.off ? 'warn' : ''}`}>{member.local}</td>
                         <td className="mono">{member.offset}</td>
-                        {/* Hide edit/delete buttons while in identity selection mode */}
+                        {/* Hide edit/delete buttons while in identity selection mode, and actions the access role doesn't allow */}
                         {!showIdentitySelection && (
                           <td>
-                            <button
-                              className="timeboard-btn timeboard-btn-secondary timeboard-btn-small"
-                              onClick={() => startEditByKey({ name: member.name, tz: member.tz })}
-                              title="Edit member"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              className="timeboard-btn timeboard-btn-danger timeboard-btn-small"
-                              onClick={() => {
-                                const delIdx = members.findIndex(m => m.name === member.name && m.tz === member.tz);
-                                if (delIdx >= 0) deleteMember(delIdx);
-                              }}
-                              title="Delete member"
-                              style={{ marginLeft: '6px' }}
-                            >
-                              🗑️
-                            </button>
+                            {(can('roster:edit') || member.name === getTeamMemberIdentity()) && (
+                              <button
+                                className="timeboard-btn timeboard-btn-secondary timeboard-btn-small"
+                                onClick={() => startEditByKey({ name: member.name, tz: member.tz })}
+                                title="Edit member"
+                              >
+                                ✏️
+                              </button>
+                            )}
+                            {can('roster:delete') && (
+                              <button
+                                className="timeboard-btn timeboard-btn-danger timeboard-btn-small"
+                                onClick={() => {
+                                  const delIdx = members.findIndex(m => m.name === member.name && m.tz === member.tz);
+                                  if (delIdx >= 0) deleteMember(delIdx);
+                                }}
+                                title="Delete member"
+                                style={{ marginLeft: '6px' }}
+                              >
+                                🗑️
+                              </button>
+                            )}
                           </td>
                         )}
                       </>
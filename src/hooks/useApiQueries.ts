@@ -1,21 +1,48 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSettings } from '../contexts/SettingsContext';
-import { auditFetch } from '../utils/auditFetch';
+import { auditFetch, getTeamMemberIdentity } from '../utils/auditFetch';
+import { syncNotificationSeenState } from '../utils/notificationSync';
+import { notifyNewInboxItems } from '../utils/desktopNotifications';
+import { DEFAULT_TEAM_CONFIG, getRepoSearchQualifier } from '../utils/teamConfig';
+import type { TeamConfig } from '../types/settings';
 
 // Query keys for different data types
 export const queryKeys = {
   mySprintJiras: ['jira', 'sprint-tickets'] as const,
   jiraTicket: (jiraId: string) => ['jira', 'ticket', jiraId] as const,
   jiraChildIssues: (parentKey: string) => ['jira', 'child-issues', parentKey] as const,
+  jiraTransitions: (jiraKey: string) => ['jira', 'transitions', jiraKey] as const,
+  teamRoster: ['team', 'members'] as const,
   epics: (filter: 'in-progress' | 'planning' | 'all' | 'blocked') => ['jira', 'epics', filter] as const,
-  myCodeReviews: ['github', 'code-reviews'] as const,
-  myPRs: (status: 'open' | 'closed') => ['github', 'my-prs', status] as const,
+  myCodeReviews: (repos: string[]) => ['github', 'code-reviews', repos] as const,
+  myPRs: (status: 'open' | 'closed', repos: string[]) => ['github', 'my-prs', status, repos] as const,
   prByNumber: (repoName: string, prNumber: number) => ['github', 'pr', repoName, prNumber] as const,
   prConversation: (repoName: string, prNumber: number) => ['github', 'pr-conversation', repoName, prNumber] as const,
   reviewerWorkload: ['github', 'reviewer-workload'] as const,
+  teamSprintBoard: ['jira', 'team-sprint-board'] as const,
+  sprintReport: (sprintId: number | null) => ['jira', 'sprint-report', sprintId] as const,
+  cycleTime: (days: number) => ['jira', 'cycle-time', days] as const,
+  prMetrics: (days: number, repos: string[]) => ['github', 'pr-metrics', days, repos] as const,
+  suggestedReviewers: (repoName: string, prNumber: number) => ['github', 'suggest-reviewers', repoName, prNumber] as const,
+  teamConfig: ['team', 'config'] as const,
+  teamPermissions: (memberName: string) => ['team', 'permissions', memberName] as const,
+  currentIdentity: ['team', 'me'] as const,
+  githubRateLimit: ['github', 'rate-limit'] as const,
+  notificationSeen: (memberName: string) => ['notifications', 'seen', memberName] as const,
+  notificationInbox: (memberName: string) => ['notifications', 'inbox', memberName] as const,
+  digestSettings: ['digest', 'settings'] as const,
+  standup: (scope: string) => ['standup', scope] as const,
+  writeAudit: (filters: WriteAuditFilters) => ['audit', 'writes', filters] as const,
+  memberCredentials: (memberName: string) => ['team', 'credentials', memberName] as const,
 };
 
+// Set while /api/events is connected and the server receives GitHub webhooks (see useLiveUpdates).
+// PR polling then only runs as a slow safety net - webhook events trigger the refetches.
+let liveUpdatesActive = false;
+const LIVE_UPDATES_POLL_INTERVAL = 15 * 60 * 1000;
+const pollInterval = (intervalMs: number) => () => (liveUpdatesActive ? Math.max(intervalMs, LIVE_UPDATES_POLL_INTERVAL) : intervalMs);
+
 // Types for our API responses
 interface JiraTicket {
   key: string;
@@ -63,6 +90,7 @@ interface GitHubPR {
   };
   // Enhanced data from detailed PR fetch
   reviewers?: GitHubReviewer[];
+  reviewedBy?: string[];  // Logins that submitted a review (drives the My Code Reviews filter)
   repository_url?: string;
   // Mergeability
   mergeable_state?: string;
@@ -75,6 +103,7 @@ interface GitHubPR {
   // Pre-fetched data for notification badges (avoids duplicate API calls)
   description?: string;
   comments?: PRCommentForNotification[];
+  unresolvedThreads?: number;  // Open review threads (from GraphQL reviewThreads)
 }
 
 interface SprintJirasResponse {
@@ -158,67 +187,13 @@ const fetchJiraChildIssues = async (parentKey: string, jiraToken: string) => {
   return response.json();
 };
 
-// Filter PRs to only those where the user is a reviewer (not author)
-// Uses server-side GitHub proxy (no token needed - server provides it)
-const filterPRsForReviewerRole = async (prs: GitHubPR[], githubUsername: string): Promise<GitHubPR[]> => {
-  const reviewerPRs: GitHubPR[] = [];
-  
-  for (const pr of prs) {
-    try {
-      // Skip if the user is the author
-      if (pr.user?.login === githubUsername) {
-        continue;
-      }
-      
-      // Get the repository name from the PR URL
-      const repoMatch = pr.repository_url?.match(/github\.com\/repos\/([^/]+)\/([^/]+)/);
-      if (!repoMatch) {
-        console.warn(`Could not extract repo name from: ${pr.repository_url}`);
-        continue;
-      }
-      
-      const [, owner, repo] = repoMatch;
-      
-      // Fetch PR details and reviews via server-side proxy
-      const [prResponse, reviewsResponse] = await Promise.all([
-        auditFetch(`/api/github/repos/${owner}/${repo}/pulls/${pr.number}`),
-        auditFetch(`/api/github/repos/${owner}/${repo}/pulls/${pr.number}/reviews`)
-      ]);
-      
-      if (!prResponse.ok || !reviewsResponse.ok) {
-        console.warn(`Failed to fetch details for PR #${pr.number} in ${owner}/${repo}`);
-        continue;
-      }
-      
-      const [prDetails, reviews] = await Promise.all([
-        prResponse.json(),
-        reviewsResponse.json()
-      ]);
-      
-      // Check if user is a requested reviewer or has reviewed
-      const isRequestedReviewer = prDetails.requested_reviewers?.some((reviewer: any) => reviewer.login === githubUsername);
-      const hasUserReviewed = reviews.some((review: any) => review.user?.login === githubUsername);
-      
-      // Include PR if user is involved as a reviewer
-      if (isRequestedReviewer || hasUserReviewed) {
-        reviewerPRs.push(pr);
-      }
-      
-    } catch (error) {
-      console.error(`Error checking reviewer role for PR #${pr.number}:`, error);
-      // Continue processing other PRs
-    }
-  }
-  
-  return reviewerPRs;
-};
-
 // Uses server-side GitHub proxy (no token needed - server provides it)
-const fetchMyCodeReviews = async (githubUsername: string): Promise<CodeReviewsResponse> => {
+const fetchMyCodeReviews = async (githubUsername: string, repos: string[]): Promise<CodeReviewsResponse> => {
   console.log(`🔍 fetchMyCodeReviews starting for user: ${githubUsername}`);
   
   // Use broader search to find PRs involving the user, then filter for reviewer role
-  const query = `is:pr is:open involves:${githubUsername}`;
+  // Scoped to the configured team repos
+  const query = `is:pr is:open ${getRepoSearchQualifier(repos)} involves:${githubUsername}`;
   const response = await auditFetch(`/api/github/search/issues?q=${encodeURIComponent(query)}&sort=updated&order=desc&per_page=100`);
 
   if (!response.ok) {
@@ -238,13 +213,21 @@ const fetchMyCodeReviews = async (githubUsername: string): Promise<CodeReviewsRe
   
   console.log(`📋 fetchMyCodeReviews found ${allPRs.length} PRs involving user, filtering for reviewer role...`);
   
-  // Filter PRs to only those where the user is a reviewer (not author)
-  const reviewerPRs = await filterPRsForReviewerRole(allPRs, githubUsername);
+  // Enhance everything in one batched call, then keep PRs where the user is a reviewer (not author):
+  // currently requested, or has submitted a review
+  const involvedPRs = await enhancePRsWithReviewers(
+    allPRs.filter((pr: GitHubPR) => pr.user?.login !== githubUsername),
+    githubUsername
+  );
+  const reviewerPRs = involvedPRs.filter(pr =>
+    pr.reviewedBy?.includes(githubUsername) ||
+    pr.reviewers?.some(r => r.username === githubUsername && r.state === 'review_requested')
+  );
   
   console.log(`📋 After filtering: ${reviewerPRs.length} PRs where user is a reviewer`);
   
-  // Enhance PRs with reviewer data (limit to first 20 for better coverage)
-  const enhancedPRs = await enhancePRsWithReviewers(reviewerPRs.slice(0, 20), githubUsername);
+  // Limit to first 20 for a manageable list
+  const enhancedPRs = reviewerPRs.slice(0, 20);
   
   console.log(`✅ fetchMyCodeReviews completed, returning ${enhancedPRs.length} enhanced PRs`);
   
@@ -256,13 +239,13 @@ const fetchMyCodeReviews = async (githubUsername: string): Promise<CodeReviewsRe
 };
 
 // Uses server-side GitHub proxy (no token needed - server provides it)
-const fetchMyPRs = async (githubUsername: string, status: 'open' | 'closed', page: number = 1): Promise<MyPRsResponse> => {
+const fetchMyPRs = async (githubUsername: string, status: 'open' | 'closed', repos: string[], page: number = 1): Promise<MyPRsResponse> => {
   console.log(`🔍 fetchMyPRs starting for user: ${githubUsername}, status: ${status}, page: ${page}`);
   
   const perPage = status === 'closed' ? 10 : 20; // Smaller page size for closed PRs to enable pagination
   
-  // GitHub search for user's own PRs via server proxy
-  const query = `is:pr author:${githubUsername} is:${status}`;
+  // GitHub search for user's own PRs via server proxy, scoped to the configured team repos
+  const query = `is:pr ${getRepoSearchQualifier(repos)} author:${githubUsername} is:${status}`;
   const response = await auditFetch(`/api/github/search/issues?q=${encodeURIComponent(query)}&sort=updated&order=desc&per_page=${perPage}&page=${page}`);
 
   if (!response.ok) {
@@ -307,374 +290,35 @@ export interface PRCommentForNotification {
   body?: string;
 }
 
-// Function to fetch detailed PR information including reviewers and comments
-// Returns reviewers plus mergeability and checks info to support UI badges
-// Also returns comments array for notification badges (eliminates need for separate usePRConversation call)
-// Uses server-side GitHub proxy (no token needed - server provides it)
-const fetchPRDetails = async (
-  repoUrl: string,
-  prNumber: number,
-  currentUser: string
-): Promise<{
-  reviewers: GitHubReviewer[];
-  mergeable_state?: string;
-  needsRebase: boolean;
-  checksState?: 'success' | 'failure' | 'pending' | 'error';
-  checksSummary?: string;
-  checksTotal?: number;
-  checksSucceeded?: number;
-  // New fields for eliminating duplicate API calls
-  description?: string;
-  comments: PRCommentForNotification[];
-}> => {
-  // Extract owner/repo from GitHub API URL
-  // URLs are in format: https://api.github.com/repos/owner/repo/issues/123
-  const repoMatch = repoUrl.match(/github\.com\/repos\/([^/]+)\/([^/]+)/);
-  if (!repoMatch) {
-    throw new Error(`Invalid repository URL: ${repoUrl}`);
-  }
-  
-  const [, owner, repo] = repoMatch;
-
-  // Debug: Log PR processing
-  // console.log(`🚀 Starting fetchPRDetails for PR #${prNumber}`);
-
-  try {
-    // Fetch via server-side proxy endpoints
-    const reviewsUrl = `/api/github/repos/${owner}/${repo}/pulls/${prNumber}/reviews?per_page=100`;
-    const issueCommentsUrl = `/api/github/repos/${owner}/${repo}/issues/${prNumber}/comments?per_page=100`;
-    const prDetailsUrl = `/api/github/repos/${owner}/${repo}/pulls/${prNumber}`;
-    const requestedReviewersUrl = `/api/github/repos/${owner}/${repo}/pulls/${prNumber}/requested_reviewers`;
-
-    // Fetch ALL review events and issue comments, and fetch PR details/requested reviewers in parallel
-    const [reviewsResp, commentsResp, prDetailsResp, requestedReviewersResp] = await Promise.all([
-      fetch(reviewsUrl),
-      fetch(issueCommentsUrl),
-      fetch(prDetailsUrl),
-      fetch(requestedReviewersUrl)
-    ]);
-    
-    if (!prDetailsResp.ok) {
-      throw new Error(`Failed to fetch PR details: ${prDetailsResp.status} ${prDetailsResp.statusText}`);
-    }
-    
-    const reviews = reviewsResp.ok ? await reviewsResp.json() : [];
-    const generalComments = commentsResp.ok ? await commentsResp.json() : [];
-    const prDetails = await prDetailsResp.json();
-    const requestedReviewersData = requestedReviewersResp.ok ? await requestedReviewersResp.json() : { users: [], teams: [] };
-
-    // Debug: Basic PR data (simplified logging)
-    if (reviews.length === 0 && (prDetails?.requested_reviewers || []).length === 0) {
-      console.log(`📊 PR #${prNumber}: No reviews or reviewers found`);
-    }
-
-    // Process reviewers (based on processReviewers from old JS app)
-    const reviewerMap = new Map<string, GitHubReviewer>();
-    const reviewerComments = new Map<string, any[]>();
-    
-    // First, process requested reviewers from multiple sources
-    const requestedReviewers = prDetails?.requested_reviewers || [];
-    const additionalRequestedUsers = requestedReviewersData?.users || [];
-    
-    // Process standard requested reviewers (preserve existing approvals like GitHub web UI)
-    requestedReviewers.forEach((reviewer: any) => {
-      if (reviewer?.login) {
-        const existingReviewer = reviewerMap.get(reviewer.login);
-        // Don't overwrite existing approvals/change requests with review requests
-        if (!existingReviewer || (existingReviewer.state !== 'approved' && existingReviewer.state !== 'changes_requested')) {
-          reviewerMap.set(reviewer.login, {
-            username: reviewer.login,
-            state: 'review_requested',
-            hasComments: false,
-            date: undefined,
-            isCurrentUser: reviewer.login === currentUser
-          });
-        }
-      }
-    });
-    
-    // Process additional requested users from /requested_reviewers endpoint
-    additionalRequestedUsers.forEach((reviewer: any) => {
-      if (reviewer?.login && !reviewerMap.has(reviewer.login)) {
-        reviewerMap.set(reviewer.login, {
-          username: reviewer.login,
-          state: 'review_requested',
-          hasComments: false,
-          date: undefined,
-          isCurrentUser: reviewer.login === currentUser
-        });
-      }
-    });
-    
-    // Log team reviewers for debugging (teams require different handling)
-    const additionalRequestedTeams = requestedReviewersData?.teams || [];
-    if (additionalRequestedTeams.length > 0) {
-      console.log(`🗃️ Found ${additionalRequestedTeams.length} team reviewers:`, additionalRequestedTeams.map((t: any) => t.name || t.slug));
-    }
-
-    // Helper function to map GitHub API review states to our interface
-    const mapReviewState = (apiState: string): GitHubReviewer['state'] => {
-      switch (apiState.toUpperCase()) {
-        case 'APPROVED': return 'approved';
-        case 'CHANGES_REQUESTED': return 'changes_requested';
-        case 'COMMENTED': return 'commented';
-        case 'DISMISSED': return 'dismissed';
-        case 'PENDING': return 'review_requested'; // Handle pending reviews
-        default: 
-          console.error(`❌ Unknown review state from GitHub API: '${apiState}' - this may cause reviewer data issues`);
-          return 'commented'; // Default fallback
-      }
-    };
-
-    // Process completed reviews
-    reviews.forEach((review: any, index: number) => {
-      const reviewer = review.user?.login;
-      if (!reviewer) {
-        console.warn(`⚠️ Review ${index} missing user.login:`, { reviewId: review.id, user: review.user });
-        return;
-      }
-
-      const hasCommentBody = review.body && review.body.trim().length > 0;
-      const mappedState = mapReviewState(review.state);
-      
-      // Track review comments for this reviewer
-      if (hasCommentBody) {
-        if (!reviewerComments.has(reviewer)) {
-          reviewerComments.set(reviewer, []);
-        }
-        reviewerComments.get(reviewer)!.push({
-          body: review.body,
-          submitted_at: review.submitted_at,
-          state: review.state,
-          type: 'review'
-        });
-      }
-
-      // Track reviewer state (GitHub web UI mirroring: preserve important states like approvals)
-      const existingReviewer = reviewerMap.get(reviewer);
-      const reviewDate = new Date(review.submitted_at);
-      
-      // Priority order: APPROVED > CHANGES_REQUESTED > others (matches GitHub web behavior)
-      const shouldUpdateReviewer = () => {
-        if (!existingReviewer) return true;  // First review for this person
-        
-        // Always preserve APPROVED state (like GitHub web UI)
-        if (existingReviewer.state === 'approved' && mappedState !== 'approved') {
-          return false;  // Don't overwrite approval with lesser states
-        }
-        
-        // Always preserve CHANGES_REQUESTED state  
-        if (existingReviewer.state === 'changes_requested' && mappedState !== 'approved' && mappedState !== 'changes_requested') {
-          return false;  // Don't overwrite change requests with comments
-        }
-        
-        // For other states, use latest review
-        return !existingReviewer.date || new Date(existingReviewer.date) < reviewDate;
-      };
-      
-      if (shouldUpdateReviewer()) {
-        reviewerMap.set(reviewer, {
-          username: reviewer,
-          state: mappedState,
-          hasComments: hasCommentBody,
-          date: review.submitted_at,
-          isCurrentUser: reviewer === currentUser,
-          // Track if this is potentially stale (for future stale indicators)
-          isStale: mappedState === 'approved' && existingReviewer?.state === 'approved'
-        });
-      }
-    });
-
-    // Process general PR comments
-    generalComments.forEach((comment: any) => {
-      const commenter = comment.user?.login;
-      if (!commenter) return;
-
-      // Track general comments for this user
-      if (!reviewerComments.has(commenter)) {
-        reviewerComments.set(commenter, []);
-      }
-      reviewerComments.get(commenter)!.push({
-        body: comment.body,
-        submitted_at: comment.created_at,
-        state: 'commented',
-        type: 'comment'
-      });
-
-      // If this user isn't already tracked as a reviewer, add them as a commenter
-      if (!reviewerMap.has(commenter)) {
-        reviewerMap.set(commenter, {
-          username: commenter,
-          state: 'commented',
-          hasComments: true,
-          date: comment.created_at,
-          isCurrentUser: commenter === currentUser
-        });
-      } else {
-        // Update hasComments flag for existing reviewers
-        const existing = reviewerMap.get(commenter)!;
-        existing.hasComments = true;
-        reviewerMap.set(commenter, existing);
-      }
-    });
-
-    // Update hasComments flag for all reviewers who have comments
-    reviewerComments.forEach((_, reviewer) => {
-      if (reviewerMap.has(reviewer)) {
-        const existing = reviewerMap.get(reviewer)!;
-        existing.hasComments = true;
-        reviewerMap.set(reviewer, existing);
-      }
-    });
-
-    // FINAL STATE NORMALIZATION: Reflect most recent status based on current requested reviewers
-    // If a reviewer is currently requested, that represents the latest state in GitHub UI,
-    // even if they previously approved or requested changes. Override to 'review_requested'.
-    try {
-      const currentlyRequestedUsers: string[] = [
-        ...(Array.isArray(prDetails?.requested_reviewers) ? prDetails.requested_reviewers.map((u: any) => u?.login).filter(Boolean) : []),
-        ...(Array.isArray(requestedReviewersData?.users) ? requestedReviewersData.users.map((u: any) => u?.login).filter(Boolean) : [])
-      ];
-      const requestedSet = new Set(currentlyRequestedUsers);
-
-      requestedSet.forEach((login) => {
-        if (!login) return;
-        const existing = reviewerMap.get(login);
-        if (existing) {
-          reviewerMap.set(login, {
-            ...existing,
-            state: 'review_requested',
-            // Preserve existing hasComments and date; reflect current-user flag
-            isCurrentUser: login === currentUser
-          });
-        } else {
-          reviewerMap.set(login, {
-            username: login,
-            state: 'review_requested',
-            hasComments: false,
-            date: undefined,
-            isCurrentUser: login === currentUser
-          });
-        }
-      });
-    } catch (e) {
-      console.warn('⚠️ Failed to normalize requested reviewers state:', e);
-    }
+// Response from the batched enrichment endpoint
+interface EnrichedPRsResponse {
+  success: boolean;
+  pullRequests: GitHubPR[];
+  errors: Array<{ repo: string; number: number; error: string }>;
+}
 
-    // Sort reviewers to put current user first
-    const sortedReviewers = Array.from(reviewerMap.values()).sort((a, b) => {
-      if (currentUser) {
-        if (a.isCurrentUser) return -1;
-        if (b.isCurrentUser) return 1;
-      }
-      return a.username.localeCompare(b.username);
-    });
+// "owner/repo" from a search item's repository_url (or issue url)
+const getPRRepoName = (pr: GitHubPR): string | null => {
+  const repoMatch = (pr.repository_url || pr.url)?.match(/github\.com\/repos\/([^/]+)\/([^/]+)/);
+  return repoMatch ? `${repoMatch[1]}/${repoMatch[2]}` : null;
+};
 
-    // Final debug summary (muted): available for opt-in debugging if needed
-    // console.debug(`PR #${prNumber} reviewers:`, sortedReviewers.map(r => `${r.username}:${r.state}`));
-    
-    let mergeableState: string | undefined = prDetails?.mergeable_state;
-    // Consider both 'behind' (out-of-date) and 'dirty' (merge conflicts) as requiring rebase/update
-    let needsRebase: boolean = mergeableState === 'behind' || mergeableState === 'dirty';
-    // Fallback: if state is unknown, use compare endpoint to detect behind-by commits
-    // Note: Compare endpoint not currently proxied - using mergeable_state only for now
-    // TODO: Add compare endpoint to server proxy if needed
-
-    // Fetch combined status for checks (using head commit SHA) via server proxy
-    let checksState: 'success' | 'failure' | 'pending' | 'error' | undefined;
-    let checksSummary: string | undefined;
-    let checksTotal: number | undefined;
-    let checksSucceeded: number | undefined;
-    try {
-      const headSha: string | undefined = prDetails?.head?.sha;
-      if (headSha) {
-        const statusUrl = `/api/github/repos/${owner}/${repo}/commits/${headSha}/status`;
-        const statusResp = await auditFetch(statusUrl);
-        if (statusResp.ok) {
-          const statusData = await statusResp.json();
-          const state = String(statusData?.state || '').toLowerCase();
-          checksState = (state as any);
-          const statuses: any[] = Array.isArray(statusData?.statuses) ? statusData.statuses : [];
-          const total = statuses.length;
-          const succeeded = statuses.filter((s: any) => String(s?.state || '').toLowerCase() === 'success').length;
-          const failingStatuses = statuses.filter((s: any) => ['failure', 'error'].includes(String(s?.state || '').toLowerCase()));
-          const failing = failingStatuses.length;
-          const pendingStatuses = statuses.filter((s: any) => String(s?.state || '').toLowerCase() === 'pending');
-          const pending = pendingStatuses.length;
-          checksTotal = total;
-          checksSucceeded = succeeded;
-          if (state === 'success') {
-            checksSummary = `All checks have passed${total ? ` (${total} successful checks)` : ''}`;
-          } else if (state === 'pending') {
-            const pendingNames = pendingStatuses.map((s: any) => s?.context).filter(Boolean);
-            checksSummary = `Checks pending${total ? ` (${pending} pending of ${total}${pendingNames.length ? `: ${pendingNames.slice(0,3).join(', ')}${pendingNames.length>3 ? '…' : ''}` : ''})` : ''}`;
-          } else if (state === 'failure' || state === 'error') {
-            const failingNames = failingStatuses.map((s: any) => s?.context).filter(Boolean);
-            checksSummary = `Checks failed${total ? ` (${failing} failing of ${total}${failingNames.length ? `: ${failingNames.slice(0,3).join(', ')}${failingNames.length>3 ? '…' : ''}` : ''})` : ''}`;
-          } else if (total) {
-            checksSummary = `Checks status: ${state} (${succeeded}/${total} passed)`;
-          }
-        }
-      }
-    } catch {
-      // ignore checks failures
+// Fetch reviewers, checks, mergeability and comments for a list of PRs in one round trip
+// (server batches them into GraphQL queries)
+const fetchEnrichedPRs = async (refs: Array<{ repo: string; number: number }>, currentUser: string): Promise<EnrichedPRsResponse> => {
+  const response = await auditFetch('/api/github/prs/enriched', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prs: refs, currentUser })
+  });
+  if (!response.ok) {
+    if (response.status === 503) {
+      throw new Error('GitHub service not available. Server may not have GitHub token configured.');
     }
-
-    // Build unified comments array for notification badges
-    // This includes review comments (with body) and general issue comments
-    const unifiedComments: PRCommentForNotification[] = [];
-    
-    // Add reviews that have comment bodies
-    reviews.forEach((review: any) => {
-      if (review.body && review.body.trim() && review.user?.login) {
-        unifiedComments.push({
-          id: `review-${review.id}`,
-          user: { login: review.user.login },
-          created_at: review.submitted_at,
-          submitted_at: review.submitted_at,
-          updated_at: review.submitted_at, // Reviews don't have separate updated_at
-          body: review.body
-        });
-      }
-    });
-    
-    // Add general issue comments
-    generalComments.forEach((comment: any) => {
-      if (comment.user?.login) {
-        unifiedComments.push({
-          id: comment.id,
-          user: { login: comment.user.login },
-          created_at: comment.created_at,
-          updated_at: comment.updated_at,
-          body: comment.body
-        });
-      }
-    });
-
-    return {
-      reviewers: sortedReviewers,
-      mergeable_state: mergeableState,
-      needsRebase,
-      checksState,
-      checksSummary,
-      checksTotal,
-      checksSucceeded,
-      // New fields for eliminating duplicate API calls
-      description: prDetails?.body || '',
-      comments: unifiedComments
-    };
-    
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`❌ Critical Error fetching PR #${prNumber} details:`, {
-      error: errorMessage,
-      repoUrl,
-      prNumber,
-      currentUser
-    });
-    // Instead of returning empty array, return partial data or throw to surface the issue
-    throw error; // Let the caller handle the error appropriately
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `Failed to load PR details (${response.status})`);
   }
+  return response.json();
 };
 
 // Function to enhance PRs with reviewer data and pre-fetch comments for notification badges
@@ -686,40 +330,31 @@ export const enhancePRsWithReviewers = async (prs: GitHubPR[], currentUser: stri
     console.log(`⚠️ No PRs to enhance, returning empty array`);
     return [];
   }
+
+  const refs = prs
+    .map(pr => ({ repo: getPRRepoName(pr), number: pr.number }))
+    .filter((ref): ref is { repo: string; number: number } => !!ref.repo);
+
+  let enrichedByKey = new Map<string, GitHubPR>();
+  let fetchError: string | null = null;
+  try {
+    const data = await fetchEnrichedPRs(refs, currentUser);
+    enrichedByKey = new Map(data.pullRequests.map(pr => [`${getPRRepoName(pr)}#${pr.number}`, pr]));
+  } catch (error) {
+    fetchError = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Failed to fetch reviewers for ${prs.length} PRs:`, fetchError);
+  }
+
+  const enhanced = prs.map(pr => {
+    const details = enrichedByKey.get(`${getPRRepoName(pr)}#${pr.number}`);
+    if (!details) {
+      // Return PR with empty reviewers but log the issue for debugging
+      return { ...pr, reviewers: [], comments: [], _reviewerFetchError: fetchError || 'PR not found' } as unknown as GitHubPR;
+    }
+    return { ...pr, ...details };
+  });
   
-  const enhanced = await Promise.all(
-    prs.map(async (pr, index) => {
-      try {
-        const url = pr.repository_url || pr.url;
-        console.log(`🔄 Processing PR ${index + 1}/${prs.length}: #${pr.number} (${pr.title?.substring(0, 50)}...)`);
-        const details = await fetchPRDetails(url, pr.number, currentUser);
-        console.log(`✅ Enhanced PR #${pr.number} with ${details.reviewers.length} reviewers, ${details.comments.length} comments (mergeable_state=${details.mergeable_state || 'unknown'}, checks=${details.checksState || 'n/a'})`);
-        return {
-          ...pr,
-          reviewers: details.reviewers,
-          mergeable_state: details.mergeable_state,
-          needsRebase: details.needsRebase,
-          checksState: details.checksState,
-          checksSummary: details.checksSummary,
-          checksTotal: details.checksTotal,
-          checksSucceeded: details.checksSucceeded,
-          // Pre-fetched data for notification badges (eliminates duplicate API calls)
-          description: details.description,
-          comments: details.comments
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`❌ Failed to fetch reviewers for PR #${pr.number}:`, {
-          error: errorMessage,
-          pr: { number: pr.number, title: pr.title?.substring(0, 50), url: pr.repository_url || pr.url }
-        });
-        // Return PR with empty reviewers but log the issue for debugging
-        return { ...pr, reviewers: [], comments: [], _reviewerFetchError: errorMessage } as unknown as GitHubPR;
-      }
-    })
-  );
-  
-  console.log(`🎯 enhancePRsWithReviewers completed: ${enhanced.length} PRs enhanced`);
+  console.log(`🎯 enhancePRsWithReviewers completed: ${enrichedByKey.size}/${enhanced.length} PRs enhanced`);
   
   return enhanced;
 };
@@ -733,12 +368,25 @@ export interface ConversationThread {
   side?: string;
   comments: any[];
   isResolved?: boolean;
+  isOutdated?: boolean;
   resolvedBy?: string;
   resolvedAt?: string;
+  nodeId?: string;         // GraphQL thread id, needed to resolve/unresolve
+  rootCommentId?: number;  // REST id of the first comment, replies are posted against it
   created_at: string;
   updated_at: string;
 }
 
+interface GitHubReviewThreadState {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  path: string;
+  line: number | null;
+  resolvedBy: string | null;
+  commentIds: number[];
+}
+
 export interface EnhancedPRConversationResponse {
   description: string;
   comments: any[];
@@ -767,6 +415,14 @@ const fetchPRConversation = async (repoName: string, prNumber: number): Promise<
     const reviews = await reviewsResponse.json();
     const generalComments = await commentsResponse.json();
     const reviewComments = await reviewCommentsResponse.json();
+
+    // Resolved/outdated state only exists in GraphQL - without it, threads fall back to path/line grouping
+    const threadStates: GitHubReviewThreadState[] = await fetch(`/api/github/repos/${owner}/${repo}/pulls/${prNumber}/review-threads`)
+      .then(res => (res.ok ? res.json() : { threads: [] }))
+      .then(data => data.threads || [])
+      .catch(() => []);
+    const threadStateByCommentId = new Map<number, GitHubReviewThreadState>();
+    threadStates.forEach(state => state.commentIds.forEach(id => threadStateByCommentId.set(id, state)));
     
     // Create conversation threads for better organization
     const threads: ConversationThread[] = [];
@@ -796,8 +452,9 @@ const fetchPRConversation = async (repoName: string, prNumber: number): Promise<
     const reviewThreads = new Map<string, ConversationThread>();
     
     reviewComments.forEach((comment: any) => {
-      // Create thread key based on file path and line - this groups related comments
-      const threadKey = comment.in_reply_to_id ? 
+      const threadState = threadStateByCommentId.get(comment.id);
+      // GitHub's own thread when known, otherwise group by file path and line
+      const threadKey = threadState ? threadState.id : comment.in_reply_to_id ? 
         `reply-${comment.in_reply_to_id}` : 
         `${comment.path}:${comment.line || comment.original_line}:${comment.side || 'RIGHT'}`;
       
@@ -809,7 +466,11 @@ const fetchPRConversation = async (repoName: string, prNumber: number): Promise<
           line: comment.line || comment.original_line,
           side: comment.side || 'RIGHT',
           comments: [],
-          isResolved: false, // TODO: Add resolved state detection logic
+          isResolved: threadState?.isResolved ?? false,
+          isOutdated: threadState?.isOutdated ?? false,
+          resolvedBy: threadState?.resolvedBy || undefined,
+          nodeId: threadState?.id,
+          rootCommentId: threadState?.commentIds[0] ?? (comment.in_reply_to_id || comment.id),
           created_at: comment.created_at,
           updated_at: comment.updated_at
         });
@@ -930,6 +591,8 @@ export const useJiraChildIssues = (parentKey: string) => {
 
 export const useMyCodeReviews = () => {
   const { apiTokens, isConfigured } = useSettings();
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG, isFetched: teamConfigLoaded } = useTeamConfig();
+  const repos = teamConfig.github.repos;
   
   console.log(`🔍 useMyCodeReviews hook called:`, {
     isConfigured,
@@ -939,10 +602,11 @@ export const useMyCodeReviews = () => {
   });
 
   return useQuery({
-    queryKey: queryKeys.myCodeReviews,
-    queryFn: () => fetchMyCodeReviews(apiTokens.githubUsername),
-    enabled: isConfigured && !!apiTokens.githubUsername, // No token needed - server provides it
-    refetchInterval: 2 * 60 * 1000, // Every 2 minutes
+    queryKey: queryKeys.myCodeReviews(repos),
+    queryFn: () => fetchMyCodeReviews(apiTokens.githubUsername, repos),
+    // No token needed - server provides it; wait for the real repo list rather than searching the defaults first
+    enabled: isConfigured && !!apiTokens.githubUsername && teamConfigLoaded,
+    refetchInterval: pollInterval(2 * 60 * 1000), // Every 2 minutes (15 with live updates)
     refetchIntervalInBackground: true, // Continue refreshing when window not focused
     retry: 3, // Retry failed requests
   });
@@ -950,6 +614,8 @@ export const useMyCodeReviews = () => {
 
 export const useMyPRs = (status: 'open' | 'closed' = 'open') => {
   const { apiTokens, isConfigured } = useSettings();
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG, isFetched: teamConfigLoaded } = useTeamConfig();
+  const repos = teamConfig.github.repos;
   
   console.log(`🔍 useMyPRs hook called:`, {
     status,
@@ -960,10 +626,11 @@ export const useMyPRs = (status: 'open' | 'closed' = 'open') => {
   });
 
   return useQuery({
-    queryKey: queryKeys.myPRs(status),
-    queryFn: () => fetchMyPRs(apiTokens.githubUsername, status),
-    enabled: isConfigured && !!apiTokens.githubUsername, // No token needed - server provides it
-    refetchInterval: 4 * 60 * 1000, // Every 4 minutes
+    queryKey: queryKeys.myPRs(status, repos),
+    queryFn: () => fetchMyPRs(apiTokens.githubUsername, status, repos),
+    // No token needed - server provides it; wait for the real repo list rather than searching the defaults first
+    enabled: isConfigured && !!apiTokens.githubUsername && teamConfigLoaded,
+    refetchInterval: pollInterval(4 * 60 * 1000), // Every 4 minutes (15 with live updates)
     refetchIntervalInBackground: true, // Continue refreshing when window not focused
     retry: 3, // Retry failed requests
   });
@@ -985,7 +652,7 @@ export const usePRConversation = (repoName: string, prNumber: number, options?:
     queryFn: () => fetchPRConversation(repoName, prNumber),
     enabled: isEnabled,
     staleTime: 2 * 60 * 1000, // 2 minutes for PR conversation data
-    refetchInterval: isEnabled ? 3 * 60 * 1000 : false, // Only auto-refresh when enabled
+    refetchInterval: isEnabled ? pollInterval(3 * 60 * 1000) : false, // Only auto-refresh when enabled (15 min with live updates)
     refetchIntervalInBackground: true, // Continue refreshing when window not focused
   });
 };
@@ -1101,10 +768,297 @@ export const useUpdateJiraField = () => {
     onSuccess: () => {
       // Invalidate epics queries to refresh the data
       queryClient.invalidateQueries({ queryKey: ['jira', 'epics'] });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'writes'] });
+    },
+    onError: () => {
+      // A rejected personal token turns into the re-link prompt once the credential status is refetched
+      queryClient.invalidateQueries({ queryKey: ['team', 'credentials'] });
+    },
+  });
+};
+
+// ============================================================================
+// GITHUB RATE LIMIT TYPES AND HOOKS
+// ============================================================================
+
+export interface GitHubQuota {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+}
+
+export interface GitHubRateLimitResponse {
+  configured: boolean;
+  degraded: boolean;
+  reasons: string[];
+  resources: { core?: GitHubQuota; search?: GitHubQuota };
+  secondaryBlockedUntil: string | null;
+  lowQuotaRatio: number;
+  counters: {
+    primaryLimitHits: number;
+    secondaryLimitHits: number;
+    deferred: number;
+    servedStale: number;
+  };
+  lastUpdated: string | null;
+}
+
+// Fetch the server's view of the shared GitHub token quota
+const fetchGitHubRateLimit = async (): Promise<GitHubRateLimitResponse> => {
+  const response = await auditFetch('/api/github/rate-limit');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch GitHub rate limit: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook to poll GitHub quota status for the header indicator
+export const useGitHubRateLimit = () => {
+  return useQuery({
+    queryKey: queryKeys.githubRateLimit,
+    queryFn: fetchGitHubRateLimit,
+    refetchInterval: 60 * 1000, // Every minute (free - doesn't count against the quota)
+    refetchIntervalInBackground: false,
+    retry: false, // A 503 just means GitHub isn't configured
+  });
+};
+
+// ============================================================================
+// NOTIFICATION READ-STATE HOOKS
+// ============================================================================
+
+// Pulls the team member's server-side read-state into localStorage, where badge helpers read it.
+// The first sync in a browser uploads that browser's existing state (one-time migration).
+// Refetches pick up badges cleared on another machine.
+export const useNotificationSeenState = () => {
+  const memberName = getTeamMemberIdentity();
+
+  return useQuery({
+    queryKey: queryKeys.notificationSeen(memberName || ''),
+    queryFn: () => syncNotificationSeenState(memberName!),
+    enabled: !!memberName,
+    staleTime: 60 * 1000,
+    refetchInterval: 5 * 60 * 1000,
+    refetchIntervalInBackground: false,
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// NOTIFICATION INBOX TYPES AND HOOKS
+// ============================================================================
+
+export type NotificationInboxItemType = 'review_requested' | 'review' | 'comment' | 'mention' | 'ci_failure' | 'status_change';
+
+export interface NotificationInboxItem {
+  id: string;
+  type: NotificationInboxItemType;
+  source: 'github' | 'jira';
+  title: string;
+  subject: string;
+  target: { kind: 'pr'; repo: string; number: number } | { kind: 'jira'; key: string };
+  actor: string | null;
+  url: string;
+  snippet: string;
+  timestamp: string;
+  reviewState?: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED';  // Reviews on my PRs only
+  read: boolean;
+}
+
+export interface NotificationInboxSource {
+  ok: boolean;
+  count?: number;
+  error?: string;
+}
+
+export interface NotificationInboxResponse {
+  success: boolean;
+  member: string;
+  days: number;
+  items: NotificationInboxItem[];
+  unread: number;
+  sources: { github: NotificationInboxSource; jira: NotificationInboxSource };
+  generatedAt: string;
+}
+
+// Fetch the calling team member's inbox (identity travels in the X-Team-Member header)
+const fetchNotificationInbox = async (refresh = false): Promise<NotificationInboxResponse> => {
+  const response = await auditFetch(`/api/notifications/inbox${refresh ? '?refresh=true' : ''}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || `Failed to fetch notification inbox: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook for the header inbox (review requests, reviews, comments, mentions, CI failures, status changes)
+export const useNotificationInbox = () => {
+  const memberName = getTeamMemberIdentity();
+
+  return useQuery({
+    queryKey: queryKeys.notificationInbox(memberName || ''),
+    queryFn: () => fetchNotificationInbox(),
+    enabled: !!memberName,
+    refetchInterval: pollInterval(2 * 60 * 1000),
+    refetchIntervalInBackground: false,
+    retry: 1,
+  });
+};
+
+// Mark specific items (ids) or everything up to now (all) as read; the inbox updates optimistically
+interface MarkInboxReadParams {
+  ids?: string[];
+  all?: boolean;
+}
+
+const markInboxRead = async ({ ids = [], all = false }: MarkInboxReadParams): Promise<void> => {
+  const now = Date.now();
+  const response = await auditFetch('/api/notifications/seen', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(all
+      ? { inboxAllReadAt: now }
+      : { inbox: Object.fromEntries(ids.map(id => [id, now])) }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to mark notifications as read');
+  }
+};
+
+export const useMarkInboxRead = () => {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.notificationInbox(getTeamMemberIdentity() || '');
+
+  return useMutation({
+    mutationFn: markInboxRead,
+    onMutate: ({ ids = [], all = false }) => {
+      const previous = queryClient.getQueryData<NotificationInboxResponse>(queryKey);
+      if (previous) {
+        const items = previous.items.map(item => (all || ids.includes(item.id) ? { ...item, read: true } : item));
+        queryClient.setQueryData<NotificationInboxResponse>(queryKey, {
+          ...previous,
+          items,
+          unread: items.filter(item => !item.read).length,
+        });
+      }
+      return { previous };
+    },
+    onError: (_error, _params, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
     },
   });
 };
 
+// Raise desktop notifications for new high-signal inbox items (opt-in, see utils/desktopNotifications.ts).
+// Mount once (Header); clicking a notification marks the item read and opens it like the inbox does.
+export const useDesktopNotifications = (onOpenItem: (item: NotificationInboxItem) => void) => {
+  const { data } = useNotificationInbox();
+  const { userPreferences } = useSettings();
+  const markRead = useMarkInboxRead();
+  const preferences = userPreferences.desktopNotifications;
+  const openRef = useRef(onOpenItem);
+  openRef.current = onOpenItem;
+  const markReadRef = useRef(markRead.mutate);
+  markReadRef.current = markRead.mutate;
+
+  useEffect(() => {
+    if (!data || !preferences?.enabled) return;
+    notifyNewInboxItems(data.items, preferences, (item) => {
+      markReadRef.current({ ids: [item.id] });
+      openRef.current(item);
+    });
+  }, [data, preferences]);
+};
+
+// ============================================================================
+// LIVE UPDATES TYPES AND HOOKS (GitHub webhooks pushed over /api/events)
+// ============================================================================
+
+export interface LiveGitHubEvent {
+  id: string | null;  // X-GitHub-Delivery
+  event: 'pull_request' | 'pull_request_review' | 'issue_comment' | 'check_run';
+  action: string | null;
+  repo: string;  // "owner/repo"
+  prNumbers: number[];
+  headSha: string | null;
+  sender: string | null;
+  receivedAt: string;
+}
+
+export type LiveUpdatesStatus = 'connecting' | 'live' | 'unavailable';
+
+// Events often arrive in bursts (a push fires one check_run per job) - refetch once per burst
+const LIVE_UPDATES_DEBOUNCE_MS = 1500;
+
+// Subscribe to server-pushed GitHub events and refetch the affected queries.
+// Mount once (Header); EventSource reconnects on its own after a dropped connection.
+export const useLiveUpdates = (): LiveUpdatesStatus => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<LiveUpdatesStatus>('connecting');
+
+  useEffect(() => {
+    const eventSource = new EventSource('/api/events');
+    const pendingKeys = new Map<string, readonly unknown[]>();
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const queueInvalidation = (queryKey: readonly unknown[]) => {
+      pendingKeys.set(JSON.stringify(queryKey), queryKey);
+      clearTimeout(flushTimer);
+      flushTimer = setTimeout(() => {
+        pendingKeys.forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+        pendingKeys.clear();
+      }, LIVE_UPDATES_DEBOUNCE_MS);
+    };
+
+    eventSource.addEventListener('connected', (event) => {
+      const { webhooksConfigured } = JSON.parse((event as MessageEvent).data);
+      liveUpdatesActive = webhooksConfigured;
+      setStatus(webhooksConfigured ? 'live' : 'unavailable');
+    });
+
+    eventSource.addEventListener('github', (event) => {
+      const data: LiveGitHubEvent = JSON.parse((event as MessageEvent).data);
+      console.log(`📡 Live update: ${data.event}${data.action ? `.${data.action}` : ''} on ${data.repo}#${data.prNumbers.join(',')}`);
+
+      // PR lists (prefix match covers every repo set / status)
+      queueInvalidation(['github', 'code-reviews']);
+      queueInvalidation(['github', 'my-prs']);
+      data.prNumbers.forEach(prNumber => {
+        queueInvalidation(queryKeys.prByNumber(data.repo, prNumber));
+        if (data.event !== 'check_run') {
+          queueInvalidation(queryKeys.prConversation(data.repo, prNumber));
+        }
+      });
+      // Review requests and submitted reviews change pending counts
+      if (data.event === 'pull_request' || data.event === 'pull_request_review') {
+        queueInvalidation(queryKeys.reviewerWorkload);
+      }
+      queueInvalidation(['notifications', 'inbox']);
+    });
+
+    eventSource.onerror = () => {
+      // Fall back to normal polling until the stream reconnects
+      liveUpdatesActive = false;
+      setStatus('connecting');
+    };
+
+    return () => {
+      clearTimeout(flushTimer);
+      eventSource.close();
+      liveUpdatesActive = false;
+    };
+  }, [queryClient]);
+
+  return status;
+};
+
 // ============================================================================
 // REVIEWER WORKLOAD TYPES AND HOOKS
 // ============================================================================
@@ -1117,12 +1071,22 @@ export interface ReviewerWorkloadMember {
   commented: number;
   approved: number;
   total: number;
+  repos: Record<string, ReviewerWorkloadCounts>;
   error?: string;
 }
 
+export interface ReviewerWorkloadCounts {
+  pending: number;
+  changesRequested: number;
+  commented: number;
+  approved: number;
+  total: number;
+}
+
 interface ReviewerWorkloadResponse {
   success: boolean;
   members: ReviewerWorkloadMember[];
+  repos?: string[];
   timestamp: string;
   message?: string;
 }
@@ -1133,6 +1097,10 @@ const fetchReviewerWorkload = async (): Promise<ReviewerWorkloadResponse> => {
 
   if (!response.ok) {
     if (response.status === 503) {
+      const error = await response.json().catch(() => ({}));
+      if (error.deferred) {
+        throw new Error(`${error.error}. Retrying in about ${Math.ceil(error.retryAfter / 60)} min.`);
+      }
       throw new Error('GitHub service not available. Server may not have GitHub token configured.');
     }
     throw new Error(`Failed to fetch reviewer workload: ${response.status}`);
@@ -1154,41 +1122,1203 @@ export const useReviewerWorkload = () => {
 };
 
 // ============================================================================
-// PR BY NUMBER (for Quick Find feature)
+// TEAM SPRINT BOARD TYPES AND HOOKS
 // ============================================================================
 
-// Fetch a specific PR by number from uhc-portal repo
-const fetchPRByNumber = async (prNumber: number, currentUser: string): Promise<any> => {
-  const owner = 'RedHatInsights';
-  const repo = 'uhc-portal';
-  
-  // Fetch the PR details
-  const prResponse = await auditFetch(`/api/github/repos/${owner}/${repo}/pulls/${prNumber}`);
-  
-  if (!prResponse.ok) {
-    if (prResponse.status === 404) {
-      throw new Error(`PR #${prNumber} not found in ${owner}/${repo}`);
-    }
-    throw new Error(`Failed to fetch PR #${prNumber}: ${prResponse.status}`);
-  }
-  
-  const prData = await prResponse.json();
-  
-  // Enhance with reviewer data using the existing helper
-  const enhanced = await enhancePRsWithReviewers([prData], currentUser);
-  
-  return enhanced[0];
+export interface TeamSprintTicket extends JiraTicket {
+  statusCategory: 'new' | 'indeterminate' | 'done';
+  assigneeEmail: string | null;
+  member: string | null; // Roster member name, null when unassigned or not on the roster
+}
+
+export interface TeamSprintStatus {
+  name: string;
+  category: 'new' | 'indeterminate' | 'done';
+}
+
+interface TeamSprintBoardResponse {
+  success: boolean;
+  tickets: TeamSprintTicket[];
+  statuses: TeamSprintStatus[];
+  members: Array<{ name: string; jira: string | null }>;
+  total: number;
+  sprintName: string | null;
+  allSprintNames: string[];
+  jqlQuery: string;
+}
+
+// Fetch every open-sprint ticket in the team project (server maps assignees to roster members)
+const fetchTeamSprintBoard = async (): Promise<TeamSprintBoardResponse> => {
+  const response = await auditFetch('/api/jira-team-sprint-tickets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    if (response.status === 503) {
+      throw new Error('JIRA service not available. Server may not have JIRA token configured.');
+    }
+    throw new Error(`Failed to fetch team sprint board: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook to fetch the team sprint board
+export const useTeamSprintBoard = () => {
+  return useQuery({
+    queryKey: queryKeys.teamSprintBoard,
+    queryFn: fetchTeamSprintBoard,
+    refetchInterval: 5 * 60 * 1000, // Every 5 minutes
+    refetchIntervalInBackground: false,
+    staleTime: 2 * 60 * 1000,
+    retry: 2,
+  });
+};
+
+// ============================================================================
+// SPRINT REPORT TYPES AND HOOKS
+// ============================================================================
+
+export interface SprintReportIssue {
+  key: string;
+  summary: string;
+  status: string;
+  assignee: string;
+  type: string;
+  points: number;
+  at?: string;          // When it was added/removed (scope change lists)
+  fromSprint?: string;  // Previous sprint name (carry-over list)
+}
+
+export interface SprintStatusTransition {
+  from: string;
+  to: string;
+  at: string;
+  author: string | null;
+}
+
+export interface SprintBurndownPoint {
+  date: string;
+  remainingIssues: number | null;  // null for days that haven't happened yet
+  remainingPoints: number | null;
+  scopeIssues: number | null;
+  scopePoints: number | null;
+  idealIssues: number;
+  idealPoints: number;
+}
+
+export interface SprintReportResponse {
+  success: boolean;
+  sprint: {
+    id: number;
+    name: string;
+    state: string;
+    startDate: string;
+    endDate: string | null;
+    completeDate: string | null;
+    goal: string | null;
+  };
+  previousSprint: { id: number; name: string } | null;
+  boardSprints: Array<{ id: number; name: string; state: string }>;
+  summary: {
+    committedIssues: number;
+    committedPoints: number;
+    addedIssues: number;
+    addedPoints: number;
+    removedIssues: number;
+    removedPoints: number;
+    completedIssues: number;
+    completedPoints: number;
+    remainingIssues: number;
+    remainingPoints: number;
+    carryOverIssues: number;
+    unestimatedIssues: number;
+  };
+  burndown: SprintBurndownPoint[];
+  added: SprintReportIssue[];
+  removed: SprintReportIssue[];
+  carryOver: SprintReportIssue[];
+  issues: Array<SprintReportIssue & { committed: boolean; inSprint: boolean; transitions: SprintStatusTransition[] }>;
+}
+
+// Fetch the sprint report (defaults to the team's active sprint)
+const fetchSprintReport = async (sprintId: number | null): Promise<SprintReportResponse> => {
+  const query = sprintId ? `?sprintId=${sprintId}` : '';
+  const response = await auditFetch(`/api/jira/sprint-report${query}`);
+
+  if (!response.ok) {
+    if (response.status === 503) {
+      throw new Error('JIRA service not available. Server may not have JIRA token configured.');
+    }
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to fetch sprint report: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook to fetch the sprint report (changelog replay is expensive, so refresh sparingly)
+export const useSprintReport = (sprintId: number | null = null) => {
+  return useQuery({
+    queryKey: queryKeys.sprintReport(sprintId),
+    queryFn: () => fetchSprintReport(sprintId),
+    placeholderData: (previousData) => previousData, // Keep the last report visible while switching sprints
+    refetchInterval: 15 * 60 * 1000, // Every 15 minutes
+    refetchIntervalInBackground: false,
+    staleTime: 10 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// CYCLE TIME ANALYTICS TYPES AND HOOKS
+// ============================================================================
+
+export interface DurationStats {
+  p50: number | null;  // Hours
+  p75: number | null;
+  p90: number | null;
+  avg: number | null;
+}
+
+export interface CycleTimeGroup {
+  group: string;
+  count: number;
+  lead: DurationStats;
+  cycle: DurationStats;
+  avgTimeInStatus: Record<string, number | null>;
+}
+
+export interface CycleTimeIssue {
+  key: string;
+  summary: string;
+  type: string;
+  assignee: string;
+  created: string;
+  resolved: string | null;
+  leadTimeHours: number | null;
+  cycleTimeHours: number | null;
+  timeInStatusHours: Record<string, number | null>;
+}
+
+export interface CycleTimeOutlier {
+  key: string;
+  summary: string;
+  type: string;
+  assignee: string;
+  cycleTimeHours: number;
+  typeP90Hours: number;
+  longestStatus: string | null;
+  longestStatusHours: number | null;
+}
+
+export interface CycleTimeResponse {
+  success: boolean;
+  days: number;
+  jqlQuery: string;
+  statuses: TeamSprintStatus[];
+  issues: CycleTimeIssue[];
+  overall: Omit<CycleTimeGroup, 'group'>;
+  byType: CycleTimeGroup[];
+  byAssignee: CycleTimeGroup[];
+  outliers: CycleTimeOutlier[];
+}
+
+// Fetch cycle/lead time analytics for issues resolved in the last N days
+const fetchCycleTime = async (days: number): Promise<CycleTimeResponse> => {
+  const response = await auditFetch(`/api/jira/cycle-time?days=${days}`);
+
+  if (!response.ok) {
+    if (response.status === 503) {
+      throw new Error('JIRA service not available. Server may not have JIRA token configured.');
+    }
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to fetch cycle times: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook to fetch cycle time analytics (historical data, so no background refresh)
+export const useCycleTime = (days: number = 90) => {
+  return useQuery({
+    queryKey: queryKeys.cycleTime(days),
+    queryFn: () => fetchCycleTime(days),
+    placeholderData: (previousData) => previousData, // Keep the last window visible while switching
+    staleTime: 30 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// PR METRICS TYPES AND HOOKS
+// ============================================================================
+
+export interface PRMetricsSummary {
+  prs: number;
+  merged: number;
+  timeToFirstReview: DurationStats;
+  firstReviewToApproval: DurationStats;
+  timeToMerge: DurationStats;
+  avgReviewRounds: number | null;
+}
+
+export interface PRMetricsAuthor extends PRMetricsSummary {
+  login: string;
+  name: string | null; // Roster member name, null when not on the roster
+}
+
+export interface PRMetricsReviewer {
+  login: string;
+  name: string | null;
+  prsReviewed: number;
+  reviews: number;
+  approvals: number;
+  changesRequested: number;
+  comments: number;
+  awaiting: number; // Open PRs where they were requested but haven't reviewed
+  responseTime: DurationStats;
+}
+
+export interface PRMetricsPR {
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+  author: string;
+  authorName: string | null;
+  state: 'open' | 'closed' | 'merged';
+  createdAt: string;
+  timeToFirstReviewHours: number | null;
+  firstReviewToApprovalHours: number | null;
+  timeToMergeHours: number | null;
+  reviewRounds: number;
+  reviewers: string[];
+}
+
+export interface PRMetricsResponse {
+  success: boolean;
+  days: number;
+  repos: string[];
+  searchQuery: string;
+  truncated: boolean;
+  overall: PRMetricsSummary;
+  byAuthor: PRMetricsAuthor[];
+  byReviewer: PRMetricsReviewer[];
+  prs: PRMetricsPR[];
+}
+
+// Fetch review turnaround metrics for PRs opened in the last N days
+const fetchPRMetrics = async (days: number): Promise<PRMetricsResponse> => {
+  const response = await auditFetch(`/api/github/pr-metrics?days=${days}`);
+
+  if (!response.ok) {
+    if (response.status === 503) {
+      throw new Error('GitHub service not available. Server may not have GitHub token configured.');
+    }
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to fetch PR metrics: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook to fetch PR review turnaround metrics (expensive - one reviews + timeline call per PR)
+export const usePRMetrics = (days: number = 30) => {
+  const { data: teamConfig = DEFAULT_TEAM_CONFIG, isFetched: teamConfigLoaded } = useTeamConfig();
+  const repos = teamConfig.github.repos;
+
+  return useQuery({
+    queryKey: queryKeys.prMetrics(days, repos),
+    queryFn: () => fetchPRMetrics(days),
+    enabled: teamConfigLoaded,
+    placeholderData: (previousData) => previousData, // Keep the last window visible while switching
+    staleTime: 30 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// REVIEWER SUGGESTIONS TYPES AND HOOKS
+// ============================================================================
+
+export interface ReviewerSuggestion {
+  name: string;
+  github: string;
+  tz: string;
+  score: number; // 0-100 weighted total
+  alreadyRequested: boolean;
+  load: { score: number; pending: number | null };
+  familiarity: { score: number; files: number; directories: number; prs: number };
+  timezone: { score: number; overlapHours: number | null };
+  reasons: string[]; // One human-readable explanation per score component
+}
+
+export interface SuggestReviewersResponse {
+  success: boolean;
+  pr: {
+    repo: string;
+    number: number;
+    author: string;
+    authorName?: string | null;
+    authorTz?: string | null;
+    files?: number;
+  };
+  weights?: { load: number; familiarity: number; timezone: number };
+  suggestions: ReviewerSuggestion[];
+  message?: string;
+}
+
+// Fetch ranked reviewer suggestions for a PR
+const fetchSuggestedReviewers = async (repoName: string, prNumber: number): Promise<SuggestReviewersResponse> => {
+  const response = await auditFetch(`/api/github/suggest-reviewers?pr=${encodeURIComponent(`${repoName}#${prNumber}`)}`);
+
+  if (!response.ok) {
+    if (response.status === 503) {
+      throw new Error('GitHub service not available. Server may not have GitHub token configured.');
+    }
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to suggest reviewers: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook to rank reviewers for a PR - only runs once the user asks for suggestions
+export const useSuggestedReviewers = (repoName: string, prNumber: number, enabled: boolean) => {
+  return useQuery({
+    queryKey: queryKeys.suggestedReviewers(repoName, prNumber),
+    queryFn: () => fetchSuggestedReviewers(repoName, prNumber),
+    enabled: enabled && !!repoName && !!prNumber,
+    staleTime: 10 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// PR BY NUMBER (for Quick Find feature)
+// ============================================================================
+
+// Fetch a specific PR by number from a repo ("owner/repo")
+const fetchPRByNumber = async (repoName: string, prNumber: number, currentUser: string): Promise<any> => {
+  const data = await fetchEnrichedPRs([{ repo: repoName, number: prNumber }], currentUser);
+  
+  if (data.pullRequests.length === 0) {
+    throw new Error(`PR #${prNumber} not found in ${repoName}`);
+  }
+  
+  return data.pullRequests[0];
 };
 
-// Hook to fetch a specific PR by number
-export const usePRByNumber = (prNumber: number | null) => {
+// Hook to fetch a specific PR by repo and number
+export const usePRByNumber = (repoName: string, prNumber: number | null) => {
   const { apiTokens } = useSettings();
   
   return useQuery({
-    queryKey: queryKeys.prByNumber('RedHatInsights/uhc-portal', prNumber || 0),
-    queryFn: () => fetchPRByNumber(prNumber!, apiTokens.githubUsername),
-    enabled: !!prNumber && prNumber > 0,
+    queryKey: queryKeys.prByNumber(repoName, prNumber || 0),
+    queryFn: () => fetchPRByNumber(repoName, prNumber!, apiTokens.githubUsername),
+    enabled: !!repoName && !!prNumber && prNumber > 0,
     staleTime: 2 * 60 * 1000, // 2 minutes
     retry: false, // Don't retry on 404
   });
 };
+
+// ============================================================================
+// TEAM CONFIGURATION (multi-team profile)
+// ============================================================================
+
+interface TeamConfigResponse {
+  success: boolean;
+  config: TeamConfig;
+  source: 'persistent' | 'defaults';
+}
+
+// Fetch the shared team configuration from server
+const fetchTeamConfig = async (): Promise<TeamConfig> => {
+  const response = await auditFetch('/api/team/config');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch team config: ${response.status}`);
+  }
+
+  const data: TeamConfigResponse = await response.json();
+  return data.config;
+};
+
+// Hook to read the team configuration (repos, JIRA instance/project, flag prefix, custom fields)
+// Falls back to the OCMUI defaults while loading so callers can always render
+export const useTeamConfig = () => {
+  return useQuery({
+    queryKey: queryKeys.teamConfig,
+    queryFn: fetchTeamConfig,
+    placeholderData: DEFAULT_TEAM_CONFIG,
+    staleTime: 30 * 60 * 1000, // Team config rarely changes
+    retry: 1,
+  });
+};
+
+// Update the shared team configuration (partial updates are merged server-side)
+const updateTeamConfig = async (updates: Partial<TeamConfig>): Promise<TeamConfig> => {
+  const response = await auditFetch('/api/team/config', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    const details = Array.isArray(error.details) ? error.details.join('; ') : error.details;
+    throw new Error(details || error.error || 'Failed to update team config');
+  }
+
+  const data: TeamConfigResponse = await response.json();
+  return data.config;
+};
+
+export const useUpdateTeamConfig = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateTeamConfig,
+    onSuccess: (config) => {
+      queryClient.setQueryData(queryKeys.teamConfig, config);
+      // Repo-scoped views key on the repo list; the workload table is computed server-side
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviewerWorkload });
+    },
+  });
+};
+
+// ============================================================================
+// ACCESS CONTROL (roles on roster entries)
+// ============================================================================
+
+export type AccessRole = 'viewer' | 'member' | 'lead' | 'admin';
+
+export type PermissionAction =
+  | 'roster:edit'
+  | 'roster:delete'
+  | 'roster:reload'
+  | 'roster:assignRoles'
+  | 'teamConfig:edit'
+  | 'audit:read'
+  | 'audit:clear'
+  | 'audit:writes'
+  | 'alerts:manage'
+  | 'digest:manage'
+  | 'jira:write'
+  | 'github:write';
+
+export interface TeamPermissionsResponse {
+  member: string | null;
+  role: AccessRole | null;
+  roles: AccessRole[];
+  permissions: Record<PermissionAction, boolean>;
+}
+
+const fetchTeamPermissions = async (): Promise<TeamPermissionsResponse> => {
+  const response = await auditFetch('/api/team/permissions');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch permissions: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// The current team member's access role. `can` is false while loading, so restricted actions stay
+// hidden until the server confirms them (the server enforces the same rules either way).
+export const useTeamPermissions = () => {
+  const memberName = getTeamMemberIdentity() || '';
+  const query = useQuery({
+    queryKey: queryKeys.teamPermissions(memberName),
+    queryFn: fetchTeamPermissions,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+
+  const can = (action: PermissionAction) => !!query.data?.permissions[action];
+  return { ...query, role: query.data?.role ?? null, can };
+};
+
+// ============================================================================
+// CURRENT IDENTITY (trusted oauth-proxy headers)
+// ============================================================================
+
+export interface CurrentIdentity {
+  mode: 'proxy' | 'dev' | 'header'; // 'header' = no SSO, identity is whatever this browser picked
+  trusted: boolean;                 // The server saw proxy headers for this request
+  user: string | null;
+  email: string | null;
+  member: { name: string; role: string; tz: string; github?: string; jira?: string } | null;
+  accessRole: AccessRole | null;
+}
+
+// Plain fetch so App can check identity before the query client is mounted
+export const fetchCurrentIdentity = async (): Promise<CurrentIdentity> => {
+  const response = await auditFetch('/api/me');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch identity: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const useCurrentIdentity = () => {
+  return useQuery({
+    queryKey: queryKeys.currentIdentity,
+    queryFn: fetchCurrentIdentity,
+    staleTime: 30 * 60 * 1000, // Only changes when the SSO session does
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// PERSONAL DIGEST TYPES AND HOOKS
+// ============================================================================
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestSettings {
+  enabled: boolean;
+  time: string; // HH:MM in each subscriber's roster timezone
+  weeklyDay: string;
+  staleDays: number;
+  subscriptions: { [memberName: string]: DigestFrequency };
+  lastSent: { [memberName: string]: string };
+  smtpConfigured: boolean;
+}
+
+// Digest page for a member, rendered server-side and opened in a new tab. The route needs the identity
+// headers (it only serves your own digest), so it's fetched here and shown from a blob URL
+export const openDigest = async (memberName: string, format: 'html' | 'markdown', period: DigestFrequency = 'daily'): Promise<void> => {
+  // Opened before the fetch so popup blockers still see the click
+  const tab = window.open('', '_blank');
+  const response = await auditFetch(`/api/digest/${encodeURIComponent(memberName)}?format=${format}&period=${period}`);
+
+  if (!response.ok) {
+    tab?.close();
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to load digest: ${response.status}`);
+  }
+
+  const content = await response.blob();
+  const url = URL.createObjectURL(format === 'markdown' ? new Blob([content], { type: 'text/plain;charset=utf-8' }) : content);
+  if (tab) tab.location.href = url;
+  else window.open(url, '_blank', 'noopener');
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+const fetchDigestSettings = async (): Promise<DigestSettings> => {
+  const response = await auditFetch('/api/digest-settings');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch digest settings: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.settings;
+};
+
+// Hook for the email digest schedule and who's subscribed
+export const useDigestSettings = (enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.digestSettings,
+    queryFn: fetchDigestSettings,
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+// Subscribe a member to the emailed digest ('off' unsubscribes)
+const updateDigestSubscription = async ({ memberName, frequency }: { memberName: string; frequency: DigestFrequency | 'off' }): Promise<DigestSettings> => {
+  const response = await auditFetch('/api/digest-settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscriptions: { [memberName]: frequency } }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    const details = Array.isArray(error.details) ? error.details.join('; ') : error.details;
+    throw new Error(details || error.error || 'Failed to update digest subscription');
+  }
+
+  const data = await response.json();
+  return data.settings;
+};
+
+export const useUpdateDigestSubscription = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateDigestSubscription,
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.digestSettings, settings);
+    },
+  });
+};
+
+// ============================================================================
+// STANDUP TYPES AND HOOKS
+// ============================================================================
+
+export interface StandupPR {
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+  draft: boolean;
+  at: string;
+}
+
+export interface StandupReviewedPR extends StandupPR {
+  author: string;
+  authorName: string | null;
+  states: string[]; // approved | changes_requested | commented | dismissed
+  comments: number; // inline review comments left
+}
+
+export interface StandupMember {
+  name: string;
+  timezone: string;
+  since: string;
+  sinceLabel: string; // e.g. "Friday, Oct 16"
+  jira: {
+    transitions: Array<{ key: string; summary: string; url: string; from: string; to: string; at: string }>;
+    comments: Array<{ key: string; summary: string; url: string; snippet: string; at: string }>;
+  };
+  github: {
+    opened: StandupPR[];
+    merged: StandupPR[];
+    reviewed: StandupReviewedPR[];
+  };
+  blocked: Array<{ key: string; summary: string; url: string; status: string; reason: string | null }>;
+}
+
+export interface StandupResponse {
+  success: boolean;
+  team: boolean;
+  generatedAt: string;
+  members: StandupMember[];
+  sources: { [source in 'jira' | 'github']: { ok: boolean; error?: string } };
+}
+
+const fetchStandup = async (team: boolean, refresh: boolean): Promise<StandupResponse> => {
+  const params = new URLSearchParams();
+  if (team) params.set('team', 'true');
+  if (refresh) params.set('refresh', 'true');
+  const response = await auditFetch(`/api/standup?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to fetch standup: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook for the Standup tab: the calling member's activity, or every roster member's in team mode
+export const useStandup = (team: boolean) => {
+  const memberName = getTeamMemberIdentity();
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.standup(team ? 'team' : memberName || '');
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchStandup(team, false),
+    enabled: team || !!memberName,
+    staleTime: 2 * 60 * 1000,
+    retry: 1,
+  });
+
+  // Manual refresh bypasses the server's short cache
+  const refresh = useMutation({
+    mutationFn: () => fetchStandup(team, true),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKey, data);
+    },
+  });
+
+  return { ...query, refresh };
+};
+
+// ============================================================================
+// WRITE AUDIT TYPES AND HOOKS
+// ============================================================================
+
+export type WriteAuditAction =
+  | 'jira.updateField' | 'jira.transition' | 'jira.comment'
+  | 'github.reply' | 'github.resolveThread' | 'github.unresolveThread' | 'github.review'
+  | 'roster.add' | 'roster.update' | 'roster.delete' | 'roster.reload';
+
+export interface WriteAuditEntry {
+  timestamp: string;
+  member: string | null;  // Roster identity that made the change
+  ssoUser?: string;       // Set when the identity came from trusted proxy headers
+  action: WriteAuditAction;
+  issueKey?: string;
+  field?: string;
+  fieldName?: string;
+  target?: string;        // Roster member name (or 'seed' for a reload)
+  before: unknown;
+  after: unknown;
+  status: 'success' | 'failed';
+  error?: string;
+  comment?: 'added' | 'failed'; // JIRA attribution comment, when enabled
+  credential?: 'personal' | 'shared'; // Token a JIRA/GitHub write went out with
+  transitionFields?: Record<string, unknown>; // Fields sent with a jira.transition (e.g. resolution)
+}
+
+export interface WriteAuditFilters {
+  member?: string;
+  issue?: string;
+  action?: string; // Exact action, or a prefix such as 'roster'
+}
+
+export interface WriteAuditResponse {
+  entries: WriteAuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  members: string[];
+  actions: WriteAuditAction[];
+}
+
+const fetchWriteAudit = async (filters: WriteAuditFilters, limit: number): Promise<WriteAuditResponse> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (filters.member) params.set('member', filters.member);
+  if (filters.issue) params.set('issue', filters.issue);
+  if (filters.action) params.set('action', filters.action);
+  const response = await auditFetch(`/api/audit/writes?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to fetch change log: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Hook for the Change Log tab
+export const useWriteAudit = (filters: WriteAuditFilters, limit = 200) => {
+  return useQuery({
+    queryKey: [...queryKeys.writeAudit(filters), limit],
+    queryFn: () => fetchWriteAudit(filters, limit),
+    staleTime: 30 * 1000,
+    retry: 1,
+  });
+};
+
+// ============================================================================
+// JIRA TRANSITIONS TYPES AND HOOKS
+// ============================================================================
+
+export interface JiraTransitionField {
+  id: string;           // e.g. "resolution" or "customfield_12345"
+  name: string;
+  required: boolean;
+  type: string;         // JIRA schema type (option, resolution, string, ...)
+  allowedValues?: Array<{ id: string; name: string }>;
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;         // Transition name, e.g. "Start Review"
+  to: { name: string; category: 'new' | 'indeterminate' | 'done' | null };
+  fields: JiraTransitionField[];
+}
+
+export interface JiraTransitionsResponse {
+  success: boolean;
+  key: string;
+  status: string | null;
+  transitions: JiraTransition[];
+}
+
+interface TransitionJiraIssueParams {
+  issueKey: string;
+  transition: JiraTransition;
+  fields?: Record<string, unknown>;
+}
+
+const fetchJiraTransitions = async (jiraKey: string): Promise<JiraTransitionsResponse> => {
+  const response = await auditFetch(`/api/jira/transitions/${encodeURIComponent(jiraKey)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to fetch transitions: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+const transitionJiraIssue = async ({ issueKey, transition, fields }: TransitionJiraIssueParams): Promise<{ success: boolean; to: string }> => {
+  const response = await auditFetch(`/api/jira/transitions/${encodeURIComponent(issueKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ transitionId: transition.id, fields }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    const details = Array.isArray(error.details) ? error.details.join('; ') : error.details;
+    throw new Error(details || error.error || 'Failed to change status');
+  }
+
+  return response.json();
+};
+
+// Workflow transitions for one issue - only fetched when the status dropdown is opened
+export const useJiraTransitions = (jiraKey: string, enabled: boolean) => {
+  return useQuery({
+    queryKey: queryKeys.jiraTransitions(jiraKey),
+    queryFn: () => fetchJiraTransitions(jiraKey),
+    enabled: enabled && !!jiraKey,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+};
+
+// Move an issue to a new status. The sprint list and the ticket cache show the new status
+// straight away and are rolled back if JIRA rejects the transition.
+export const useTransitionJiraIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: transitionJiraIssue,
+    onMutate: async ({ issueKey, transition }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.mySprintJiras });
+      await queryClient.cancelQueries({ queryKey: queryKeys.jiraTicket(issueKey) });
+      const previousSprint = queryClient.getQueryData<SprintJirasResponse>(queryKeys.mySprintJiras);
+      const previousTicket = queryClient.getQueryData<{ success: boolean; ticket?: { status: string } }>(queryKeys.jiraTicket(issueKey));
+      const status = transition.to.name;
+
+      if (previousSprint) {
+        queryClient.setQueryData<SprintJirasResponse>(queryKeys.mySprintJiras, {
+          ...previousSprint,
+          tickets: previousSprint.tickets.map(t => (t.key === issueKey ? { ...t, status } : t)),
+        });
+      }
+      if (previousTicket?.ticket) {
+        queryClient.setQueryData(queryKeys.jiraTicket(issueKey), {
+          ...previousTicket,
+          ticket: { ...previousTicket.ticket, status },
+        });
+      }
+      return { previousSprint, previousTicket };
+    },
+    onError: (_error, { issueKey }, context) => {
+      if (context?.previousSprint) queryClient.setQueryData(queryKeys.mySprintJiras, context.previousSprint);
+      if (context?.previousTicket) queryClient.setQueryData(queryKeys.jiraTicket(issueKey), context.previousTicket);
+      queryClient.invalidateQueries({ queryKey: ['team', 'credentials'] });
+    },
+    onSettled: (_data, _error, { issueKey }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.mySprintJiras });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jiraTicket(issueKey) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.jiraTransitions(issueKey) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamSprintBoard });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'writes'] });
+    },
+  });
+};
+
+// ============================================================================
+// TEAM ROSTER AND JIRA COMMENT TYPES AND HOOKS
+// ============================================================================
+
+export interface RosterMember {
+  name: string;
+  role: string;
+  tz: string;
+  github?: string;
+  jira?: string; // Usually the member's JIRA email - what the comment composer inserts as [~jira]
+}
+
+const fetchTeamRoster = async (): Promise<RosterMember[]> => {
+  const response = await auditFetch('/api/team/members');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch team roster: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.members || [];
+};
+
+// Read-only roster for pickers and autocomplete (the Timeboard manages its own editable copy)
+export const useTeamRoster = () => {
+  return useQuery({
+    queryKey: queryKeys.teamRoster,
+    queryFn: fetchTeamRoster,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+interface AddJiraCommentParams {
+  issueKey: string;
+  body: string; // JIRA wiki markup
+}
+
+const addJiraComment = async ({ issueKey, body }: AddJiraCommentParams): Promise<{ success: boolean }> => {
+  const response = await auditFetch('/api/jira/comment', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ issueKey, body }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to add comment');
+  }
+
+  return response.json();
+};
+
+export const useAddJiraComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: addJiraComment,
+    onSuccess: (_data, { issueKey }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jiraTicket(issueKey) });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'writes'] });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ['team', 'credentials'] });
+    },
+  });
+};
+
+// ============================================================================
+// PR REVIEW THREAD TYPES AND HOOKS
+// ============================================================================
+
+interface ReplyToReviewThreadParams {
+  repoName: string;
+  prNumber: number;
+  commentId: number; // Root comment of the thread
+  body: string;      // GitHub markdown
+}
+
+const replyToReviewThread = async ({ repoName, prNumber, commentId, body }: ReplyToReviewThreadParams): Promise<{ success: boolean }> => {
+  const [owner, repo] = repoName.split('/');
+  const response = await auditFetch(`/api/github/repos/${owner}/${repo}/pulls/${prNumber}/comments/${commentId}/replies`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ body }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || 'Failed to post reply');
+  }
+
+  return response.json();
+};
+
+export const useReplyToReviewThread = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: replyToReviewThread,
+    onSuccess: (_data, { repoName, prNumber }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.prConversation(repoName, prNumber) });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'writes'] });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ['team', 'credentials'] });
+    },
+  });
+};
+
+interface ResolveReviewThreadParams {
+  repoName: string;
+  prNumber: number;
+  threadId: string; // GraphQL node id (ConversationThread.nodeId)
+  resolved: boolean;
+}
+
+const resolveReviewThread = async ({ repoName, prNumber, threadId, resolved }: ResolveReviewThreadParams): Promise<{ success: boolean }> => {
+  const [owner, repo] = repoName.split('/');
+  const response = await auditFetch(
+    `/api/github/repos/${owner}/${repo}/pulls/${prNumber}/review-threads/${encodeURIComponent(threadId)}/${resolved ? 'resolve' : 'unresolve'}`,
+    { method: 'POST' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || `Failed to ${resolved ? 'resolve' : 'unresolve'} thread`);
+  }
+
+  return response.json();
+};
+
+// Resolve or unresolve a review thread. The conversation flips straight away and is rolled
+// back if GitHub rejects it; PR lists are refetched so the unresolved badge catches up.
+export const useResolveReviewThread = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: resolveReviewThread,
+    onMutate: async ({ repoName, prNumber, threadId, resolved }) => {
+      const key = queryKeys.prConversation(repoName, prNumber);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<EnhancedPRConversationResponse>(key);
+
+      if (previous) {
+        queryClient.setQueryData<EnhancedPRConversationResponse>(key, {
+          ...previous,
+          threads: previous.threads.map(t => (t.nodeId === threadId ? { ...t, isResolved: resolved } : t)),
+        });
+      }
+      return { previous };
+    },
+    onError: (_error, { repoName, prNumber }, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKeys.prConversation(repoName, prNumber), context.previous);
+      queryClient.invalidateQueries({ queryKey: ['team', 'credentials'] });
+    },
+    onSettled: (_data, _error, { repoName, prNumber }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.prConversation(repoName, prNumber) });
+      queryClient.invalidateQueries({ queryKey: ['github', 'my-prs'] });
+      queryClient.invalidateQueries({ queryKey: ['github', 'code-reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'writes'] });
+    },
+  });
+};
+
+// ============================================================================
+// MEMBER CREDENTIALS AND PR REVIEW TYPES AND HOOKS
+// ============================================================================
+
+export type CredentialService = 'github' | 'jira';
+
+// 'expiring': expires within a week; 'expired': past its expiry or rejected by the service;
+// 'unreadable': the server can no longer decrypt it (encryption key changed)
+export type CredentialHealth = 'ok' | 'expiring' | 'expired' | 'unreadable';
+
+export interface MemberCredentialStatus {
+  linked: boolean;
+  login?: string;
+  linkedAt?: string;
+  expiresAt?: string | null; // Only GitHub reports token expiry
+  status?: CredentialHealth;
+}
+
+export interface MemberCredentialsResponse {
+  success: boolean;
+  member: string;
+  encryptionConfigured: boolean;
+  identityVerified: boolean; // Personal tokens are only linked and used with SSO (oauth-proxy) identity
+  github: MemberCredentialStatus;
+  jira: MemberCredentialStatus;
+}
+
+// Linked tokens that need the member's attention - drives the re-link prompt in the header
+export const getCredentialsNeedingRelink = (credentials?: MemberCredentialsResponse): CredentialService[] =>
+  credentials
+    ? (['github', 'jira'] as const).filter(service => credentials[service].linked && credentials[service].status !== 'ok')
+    : [];
+
+const fetchMemberCredentials = async (): Promise<MemberCredentialsResponse> => {
+  const response = await auditFetch('/api/credentials');
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch linked tokens: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Which personal tokens the current member has linked (never the tokens themselves)
+export const useMemberCredentials = (enabled = true) => {
+  const memberName = getTeamMemberIdentity();
+
+  return useQuery({
+    queryKey: queryKeys.memberCredentials(memberName || ''),
+    queryFn: fetchMemberCredentials,
+    enabled: enabled && !!memberName,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+interface UpdateMemberCredentialParams {
+  service: CredentialService;
+  token: string | null; // null unlinks
+}
+
+const updateMemberCredential = async ({ service, token }: UpdateMemberCredentialParams): Promise<MemberCredentialsResponse> => {
+  const response = await auditFetch(`/api/credentials/${service}`, token
+    ? { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ token }) }
+    : { method: 'DELETE' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.details || error.error || `Failed to ${token ? 'link' : 'unlink'} token`);
+  }
+
+  return response.json();
+};
+
+// Link, re-link or unlink (token: null) one of the member's personal tokens
+export const useUpdateMemberCredential = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateMemberCredential,
+    onSuccess: (data) => {
+      const memberName = getTeamMemberIdentity() || '';
+      const previous = queryClient.getQueryData<MemberCredentialsResponse>(queryKeys.memberCredentials(memberName));
+      if (previous) queryClient.setQueryData(queryKeys.memberCredentials(memberName), { ...previous, github: data.github, jira: data.jira });
+    },
+  });
+};
+
+export type PRReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+interface SubmitPRReviewParams {
+  repoName: string;
+  prNumber: number;
+  event: PRReviewEvent;
+  body: string; // GitHub markdown, optional for APPROVE
+}
+
+const submitPRReview = async ({ repoName, prNumber, event, body }: SubmitPRReviewParams): Promise<{ success: boolean; token: 'personal' | 'shared' }> => {
+  const [owner, repo] = repoName.split('/');
+  const response = await auditFetch(`/api/github/repos/${owner}/${repo}/pulls/${prNumber}/reviews`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ event, body }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    const details = Array.isArray(error.details) ? error.details.join('; ') : error.details;
+    throw new Error(details || error.error || 'Failed to submit review');
+  }
+
+  return response.json();
+};
+
+// Submit a review; reviewer badges and the conversation are refetched so the new state shows up
+export const useSubmitPRReview = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: submitPRReview,
+    onSuccess: (_data, { repoName, prNumber }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.prConversation(repoName, prNumber) });
+      queryClient.invalidateQueries({ queryKey: ['github', 'my-prs'] });
+      queryClient.invalidateQueries({ queryKey: ['github', 'code-reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'writes'] });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ['team', 'credentials'] });
+    },
+  });
+};
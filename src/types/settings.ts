@@ -5,11 +5,51 @@ export interface ApiTokens {
   jiraUsername: string;
 }
 
+// High-signal inbox events that can raise a browser desktop notification
+export type DesktopNotificationEvent = 'review_requested' | 'changes_requested' | 'ci_failed' | 'approved';
+
+export interface DesktopNotificationPreferences {
+  enabled: boolean;
+  enabledAt: number | null;  // epoch ms - older events never notify (no flood when first switched on)
+  events: Record<DesktopNotificationEvent, boolean>;
+  quietHours: {
+    enabled: boolean;
+    start: string;  // "HH:MM" in the roster timezone
+    end: string;
+  };
+}
+
 export interface UserPreferences {
   timezone: string;
+  desktopNotifications?: DesktopNotificationPreferences;
 }
 
 export interface AppSettings {
   apiTokens: ApiTokens;
   userPreferences: UserPreferences;
 }
+
+// Shared team profile served by GET/PUT /api/team/config (persisted on the server next to members.json)
+export interface TeamConfig {
+  teamName: string;
+  github: {
+    repos: string[];  // e.g., ["RedHatInsights/uhc-portal"]
+  };
+  jira: {
+    instanceUrl: string;  // e.g., "https://issues.redhat.com"
+    projectKey: string;   // e.g., "OCMUI"
+    attributionComments: boolean; // Comment "(via dashboard by <name>)" on issues edited through the dashboard
+    customFields: {
+      targetEnd: string;
+      marketingImpactNotes: string;
+      blockedReason: string;
+      parentLink: string;
+      featureLink: string;
+      sprint: string;
+      storyPoints: string;
+    };
+  };
+  unleash: {
+    flagPrefix: string;   // e.g., "ocmui-"
+  };
+}
@@ -3,6 +3,18 @@
  * Run these in browser console to troubleshoot notification issues
  */
 
+import { clearServerNotificationSeen } from './notificationSync';
+import {
+  clearSentDesktopNotifications,
+  getDesktopNotificationPermission,
+  getRosterTimezone,
+  getSentDesktopNotifications,
+  isInQuietHours,
+  showTestDesktopNotification,
+  DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES
+} from './desktopNotifications';
+import type { DesktopNotificationEvent } from '../types/settings';
+
 // Add debug functions to window for easy console access
 declare global {
   interface Window {
@@ -11,6 +23,9 @@ declare global {
       clear: () => void;
       clearPR: (repoName: string, prNumber: number) => void;
       showPR: (repoName: string, prNumber: number) => void;
+      showDesktop: () => void;
+      testDesktop: (event?: DesktopNotificationEvent) => void;
+      clearDesktop: () => void;
     };
   }
 }
@@ -44,6 +59,9 @@ export const setupNotificationDebugTools = () => {
      */
     clear: () => {
       localStorage.removeItem('reviewer-last-clicked');
+      localStorage.removeItem('jira-comments-last-viewed');
+      // Server copy too, otherwise the next sync restores it
+      clearServerNotificationSeen();
       console.log('🗑️ Cleared all notification data');
     },
     
@@ -57,6 +75,7 @@ export const setupNotificationDebugTools = () => {
         const prKey = `${repoName}#${prNumber}`;
         delete parsed[prKey];
         localStorage.setItem('reviewer-last-clicked', JSON.stringify(parsed));
+        clearServerNotificationSeen(prKey);
         console.log(`🗑️ Cleared notification data for ${prKey}`);
       }
     },
@@ -83,6 +102,39 @@ export const setupNotificationDebugTools = () => {
       } else {
         console.log('🔔 No notification data found');
       }
+    },
+
+    /**
+     * Show desktop notification permission, preferences, quiet hours and already-notified items
+     */
+    showDesktop: () => {
+      let preferences = DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES;
+      try {
+        preferences = JSON.parse(localStorage.getItem('ocmui_user_preferences') || '{}').desktopNotifications || preferences;
+      } catch {
+        // Ignore parse errors
+      }
+      const timezone = getRosterTimezone();
+      console.log(`🖥️ Permission: ${getDesktopNotificationPermission()}, enabled: ${preferences.enabled}`);
+      console.log('🖥️ Preferences:', preferences);
+      console.log(`🔕 Quiet hours now (${timezone}): ${isInQuietHours(preferences.quietHours, timezone)}`);
+      const sent = getSentDesktopNotifications();
+      console.log(`📊 ${Object.keys(sent).length} inbox items already notified:`, sent);
+    },
+
+    /**
+     * Show a sample desktop notification (ignores toggles and quiet hours)
+     */
+    testDesktop: (event?: DesktopNotificationEvent) => {
+      showTestDesktopNotification(event);
+    },
+
+    /**
+     * Forget which inbox items were notified, so they can notify again on the next poll
+     */
+    clearDesktop: () => {
+      clearSentDesktopNotifications();
+      console.log('🗑️ Cleared desktop notification history');
     }
   };
   
@@ -91,4 +143,7 @@ export const setupNotificationDebugTools = () => {
   console.log('  - debugNotifications.clear() - Clear all data'); 
   console.log('  - debugNotifications.showPR("owner/repo", 123) - Show PR data');
   console.log('  - debugNotifications.clearPR("owner/repo", 123) - Clear PR data');
+  console.log('  - debugNotifications.showDesktop() - Show desktop notification state');
+  console.log('  - debugNotifications.testDesktop("ci_failed") - Show a sample desktop notification');
+  console.log('  - debugNotifications.clearDesktop() - Forget which items were notified');
 };
@@ -0,0 +1,220 @@
+/**
+ * Desktop Notifications
+ * Raises browser (Web Notification API) popups for high-signal inbox events: review requests,
+ * changes requested / approvals on my PRs and CI failures on my PRs. Opt-in per browser.
+ * Each inbox item notifies at most once: a sent-set in localStorage survives reloads, and a
+ * BroadcastChannel tells other open tabs what was just shown so they don't repeat it.
+ */
+
+import type { NotificationInboxItem } from '../hooks/useApiQueries';
+import type { DesktopNotificationEvent, DesktopNotificationPreferences } from '../types/settings';
+import dashboardIcon from '../assets/icon48.png';
+
+export const DESKTOP_NOTIFICATION_EVENTS: Array<{ id: DesktopNotificationEvent; label: string }> = [
+  { id: 'review_requested', label: 'You were requested to review a PR' },
+  { id: 'changes_requested', label: 'Changes requested on your PR' },
+  { id: 'ci_failed', label: 'CI failed on your PR' },
+  { id: 'approved', label: 'Your PR was approved' },
+];
+
+export const DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES: DesktopNotificationPreferences = {
+  enabled: false,
+  enabledAt: null,
+  events: {
+    review_requested: true,
+    changes_requested: true,
+    ci_failed: true,
+    approved: true,
+  },
+  quietHours: {
+    enabled: true,
+    start: '18:00',
+    end: '09:00',
+  },
+};
+
+export const DESKTOP_NOTIFICATIONS_SENT_STORAGE_KEY = 'desktop-notifications-sent';
+const CHANNEL_NAME = 'ocmui-desktop-notifications';
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Matches the inbox read-state retention
+const MAX_NOTIFICATIONS_PER_POLL = 3;
+// Tabs polling at the same moment wait a little so the first one's broadcast can arrive
+const CROSS_TAB_JITTER_MS = 750;
+
+const EVENT_TITLES: Record<DesktopNotificationEvent, string> = {
+  review_requested: '👀 Review requested',
+  changes_requested: '✏️ Changes requested',
+  ci_failed: '❌ CI failed',
+  approved: '✅ PR approved',
+};
+
+type SentMap = { [itemId: string]: number };
+
+const readSent = (): SentMap => {
+  try {
+    const raw = localStorage.getItem(DESKTOP_NOTIFICATIONS_SENT_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const markSent = (itemIds: string[]): void => {
+  const now = Date.now();
+  const sent = readSent();
+  itemIds.forEach(id => { sent[id] = now; });
+  Object.keys(sent).forEach(id => {
+    if (now - sent[id] > SENT_RETENTION_MS) delete sent[id];
+  });
+  try {
+    localStorage.setItem(DESKTOP_NOTIFICATIONS_SENT_STORAGE_KEY, JSON.stringify(sent));
+  } catch (error) {
+    console.warn(`Failed to save ${DESKTOP_NOTIFICATIONS_SENT_STORAGE_KEY}:`, error);
+  }
+};
+
+// Ids other tabs announced since this tab loaded (covers the window before localStorage is re-read)
+const sentElsewhere = new Set<string>();
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel || typeof BroadcastChannel === 'undefined') return channel;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<{ type: string; ids: string[] }>) => {
+    if (event.data?.type === 'sent') event.data.ids.forEach(id => sentElsewhere.add(id));
+  };
+  return channel;
+};
+
+export const isDesktopNotificationSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getDesktopNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  isDesktopNotificationSupported() ? Notification.permission : 'unsupported';
+
+// Must be called from a user gesture (e.g. the Settings toggle)
+export const requestDesktopNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!isDesktopNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Which desktop notification (if any) an inbox item maps to
+export const getDesktopNotificationEvent = (item: NotificationInboxItem): DesktopNotificationEvent | null => {
+  if (item.type === 'review_requested') return 'review_requested';
+  if (item.type === 'ci_failure') return 'ci_failed';
+  if (item.reviewState === 'CHANGES_REQUESTED') return 'changes_requested';
+  if (item.reviewState === 'APPROVED') return 'approved';
+  return null;
+};
+
+// Timezone from the team member's roster entry (stored with the identity); falls back to the browser's
+export const getRosterTimezone = (): string => {
+  try {
+    const stored = localStorage.getItem('ocmui_selected_team_member');
+    const timezone = stored ? JSON.parse(stored).timezone : null;
+    if (timezone) return timezone;
+  } catch {
+    // Ignore parse errors
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+const toMinutes = (hhmm: string): number => {
+  const [hours, minutes] = hhmm.split(':').map(n => parseInt(n, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Quiet hours are wall-clock times in the team member's roster timezone; the window may span midnight
+export const isInQuietHours = (
+  quietHours: DesktopNotificationPreferences['quietHours'],
+  timezone: string,
+  now: Date = new Date()
+): boolean => {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+  let current: number;
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(now);
+    const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+    current = part('hour') * 60 + part('minute');
+  } catch {
+    current = now.getHours() * 60 + now.getMinutes();
+  }
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+const showNotification = (title: string, body: string, tag: string, onClick?: () => void): void => {
+  try {
+    // Same tag replaces rather than stacks, a last line of defence against duplicates
+    const notification = new Notification(title, { body, tag, icon: dashboardIcon });
+    notification.onclick = () => {
+      window.focus();
+      onClick?.();
+      notification.close();
+    };
+  } catch (error) {
+    console.warn('Failed to show desktop notification:', error);
+  }
+};
+
+/**
+ * Notify for inbox items not yet notified in any tab.
+ * Items during quiet hours are recorded as sent without a popup, so they don't all fire when quiet hours end.
+ */
+export const notifyNewInboxItems = async (
+  items: NotificationInboxItem[],
+  preferences: DesktopNotificationPreferences,
+  onOpenItem: (item: NotificationInboxItem) => void
+): Promise<void> => {
+  if (!preferences.enabled || getDesktopNotificationPermission() !== 'granted') return;
+
+  const isCandidate = (item: NotificationInboxItem) => {
+    const event = getDesktopNotificationEvent(item);
+    return !!event
+      && preferences.events[event]
+      && !item.read
+      && new Date(item.timestamp).getTime() >= (preferences.enabledAt || 0)
+      && !sentElsewhere.has(item.id)
+      && !readSent()[item.id];
+  };
+
+  if (!items.some(isCandidate)) return;
+  getChannel();
+  await new Promise(resolve => setTimeout(resolve, Math.random() * CROSS_TAB_JITTER_MS));
+
+  const fresh = items.filter(isCandidate);
+  if (fresh.length === 0) return;
+  markSent(fresh.map(item => item.id));
+  getChannel()?.postMessage({ type: 'sent', ids: fresh.map(item => item.id) });
+
+  if (isInQuietHours(preferences.quietHours, getRosterTimezone())) {
+    console.log(`🔕 Quiet hours - skipped ${fresh.length} desktop notification${fresh.length === 1 ? '' : 's'}`);
+    return;
+  }
+
+  fresh.slice(0, MAX_NOTIFICATIONS_PER_POLL).forEach(item => {
+    const event = getDesktopNotificationEvent(item)!;
+    const actor = item.actor ? ` by @${item.actor}` : '';
+    showNotification(EVENT_TITLES[event], `${item.title}${actor}\n${item.subject}`, item.id, () => onOpenItem(item));
+  });
+  if (fresh.length > MAX_NOTIFICATIONS_PER_POLL) {
+    const more = fresh.length - MAX_NOTIFICATIONS_PER_POLL;
+    showNotification('🔔 Team Dashboard', `${more} more update${more === 1 ? '' : 's'} - see the notification inbox`, 'inbox-summary');
+  }
+};
+
+// Debug harness: show a sample notification for an event type, ignoring toggles and quiet hours
+export const showTestDesktopNotification = (event: DesktopNotificationEvent = 'review_requested'): void => {
+  if (getDesktopNotificationPermission() !== 'granted') {
+    console.log(`🔕 Desktop notifications not permitted (permission: ${getDesktopNotificationPermission()})`);
+    return;
+  }
+  showNotification(EVENT_TITLES[event], 'Test notification from the Team Dashboard', `test-${event}-${Date.now()}`);
+};
+
+export const getSentDesktopNotifications = (): SentMap => readSent();
+
+export const clearSentDesktopNotifications = (): void => {
+  localStorage.removeItem(DESKTOP_NOTIFICATIONS_SENT_STORAGE_KEY);
+  sentElsewhere.clear();
+};
@@ -531,6 +531,10 @@ function convertAdfToHtmlSync(adfNode: any, jiraKey?: string, attachments?: Reco
       });
     }
     html += text;
+  } else if (adfNode.type?.name === 'mention') {
+    // [~username] mentions have no text content of their own
+    const name = adfNode.attrs?.text?.replace(/^@/, '') || adfNode.attrs?.id || '';
+    html += `<span class="jira-mention">@${escapeHtml(name)}</span>`;
   } else if (adfNode.type?.name === 'media') {
     // For sync version, just create simple links or images
     const attrs = adfNode.attrs || {};
@@ -845,3 +849,14 @@ export function formatDateInTimezone(
     return 'Invalid Date';
   }
 }
+
+/**
+ * Format a duration in hours compactly for analytics tables
+ * @param hours - Duration in hours (null when not applicable)
+ * @returns "5h" under a day, "3.2d" otherwise, "—" when missing
+ */
+export function formatDurationHours(hours: number | null | undefined): string {
+  if (hours == null) return '—';
+  if (hours < 24) return `${Math.round(hours)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
@@ -1,4 +1,7 @@
-const STORAGE_KEY = 'jira-comments-last-viewed';
+import { JIRA_COMMENTS_SEEN_STORAGE_KEY, queueNotificationSeenUpdate } from './notificationSync';
+
+// Last-viewed times for JIRA comment badges (synced to the server per team member - see notificationSync.ts)
+const STORAGE_KEY = JIRA_COMMENTS_SEEN_STORAGE_KEY;
 const CLEANUP_DAYS = 30;
 
 interface LastViewedMap {
@@ -31,6 +34,7 @@ export const updateJiraCommentsLastViewed = (jiraKey: string): void => {
   const store = getStore();
   store[jiraKey] = Date.now();
   saveStore(store);
+  queueNotificationSeenUpdate({ jiraComments: { [jiraKey]: store[jiraKey] } });
 };
 
 export const countNewJiraCommentsSinceLastViewed = (
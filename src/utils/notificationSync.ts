@@ -0,0 +1,154 @@
+/**
+ * Notification Read-State Sync
+ * Mirrors the "last seen" stores behind reviewer and JIRA comment badges to the server, keyed by
+ * the roster identity, so read-state follows a team member across browsers and machines.
+ * localStorage stays the synchronous source badges read from; server state is merged into it on load.
+ */
+
+import { auditFetch, getTeamMemberIdentity } from './auditFetch';
+
+export const REVIEWER_SEEN_STORAGE_KEY = 'reviewer-last-clicked';
+export const JIRA_COMMENTS_SEEN_STORAGE_KEY = 'jira-comments-last-viewed';
+// Team members whose pre-sync localStorage state this browser has already uploaded
+const MIGRATED_STORAGE_KEY = 'notification-seen-migrated';
+const FLUSH_DELAY_MS = 1000;
+
+type ReviewerSeenMap = { [prKey: string]: { [username: string]: number } };
+type JiraCommentsSeenMap = { [jiraKey: string]: number };
+
+export interface NotificationSeenUpdate {
+  reviewers?: ReviewerSeenMap;
+  jiraComments?: JiraCommentsSeenMap;
+}
+
+export interface NotificationSeenState {
+  success: boolean;
+  member: string;
+  reviewers: ReviewerSeenMap;
+  jiraComments: JiraCommentsSeenMap;
+  updatedAt: string | null;
+}
+
+const readStore = <T extends object>(key: string): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : ({} as T);
+  } catch {
+    return {} as T;
+  }
+};
+
+const writeStore = (key: string, data: object): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+  } catch (error) {
+    console.warn(`Failed to save ${key}:`, error);
+  }
+};
+
+// Newest timestamp wins per key (same rule as the server)
+const mergeNewest = (target: JiraCommentsSeenMap, source: JiraCommentsSeenMap): boolean => {
+  let changed = false;
+  Object.entries(source).forEach(([key, timestamp]) => {
+    if (timestamp > (target[key] || 0)) {
+      target[key] = timestamp;
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+const mergeReviewers = (target: ReviewerSeenMap, source: ReviewerSeenMap): boolean => {
+  let changed = false;
+  Object.entries(source).forEach(([prKey, reviewers]) => {
+    target[prKey] = target[prKey] || {};
+    if (mergeNewest(target[prKey], reviewers)) changed = true;
+  });
+  return changed;
+};
+
+// Updates waiting to be sent (writes come in bursts when cards first render)
+let pendingReviewers: ReviewerSeenMap = {};
+let pendingJiraComments: JiraCommentsSeenMap = {};
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+const flushNotificationSeenUpdates = async (): Promise<void> => {
+  const update = { reviewers: pendingReviewers, jiraComments: pendingJiraComments };
+  pendingReviewers = {};
+  pendingJiraComments = {};
+  // No identity yet - read-state stays local until one is chosen (and gets migrated then)
+  if (!getTeamMemberIdentity()) return;
+
+  try {
+    const response = await auditFetch('/api/notifications/seen', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update)
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  } catch (error) {
+    // Keep the updates for the next flush
+    console.warn('Failed to sync notification read-state:', error);
+    mergeReviewers(pendingReviewers, update.reviewers);
+    mergeNewest(pendingJiraComments, update.jiraComments);
+  }
+};
+
+/**
+ * Queue "last seen" timestamps written to localStorage for upload to the server
+ */
+export const queueNotificationSeenUpdate = (update: NotificationSeenUpdate): void => {
+  if (update.reviewers) mergeReviewers(pendingReviewers, update.reviewers);
+  if (update.jiraComments) mergeNewest(pendingJiraComments, update.jiraComments);
+  clearTimeout(flushTimer);
+  flushTimer = setTimeout(flushNotificationSeenUpdates, FLUSH_DELAY_MS);
+};
+
+/**
+ * Load the member's server read-state and merge it into localStorage.
+ * The first time a member syncs in this browser, their existing localStorage state is uploaded first.
+ */
+export const syncNotificationSeenState = async (memberName: string): Promise<NotificationSeenState> => {
+  const localReviewers = readStore<ReviewerSeenMap>(REVIEWER_SEEN_STORAGE_KEY);
+  const localJiraComments = readStore<JiraCommentsSeenMap>(JIRA_COMMENTS_SEEN_STORAGE_KEY);
+  const migratedMembers = readStore<string[]>(MIGRATED_STORAGE_KEY);
+  const needsMigration = !Array.isArray(migratedMembers) || !migratedMembers.includes(memberName);
+
+  const response = needsMigration
+    ? await auditFetch('/api/notifications/seen', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewers: localReviewers, jiraComments: localJiraComments })
+      })
+    : await auditFetch('/api/notifications/seen');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to load notification read-state: ${response.status}`);
+  }
+  const state: NotificationSeenState = await response.json();
+
+  if (needsMigration) {
+    writeStore(MIGRATED_STORAGE_KEY, [...(Array.isArray(migratedMembers) ? migratedMembers : []), memberName]);
+    console.log(`🔔 Uploaded local notification read-state for ${memberName} (${Object.keys(localReviewers).length} PRs, ${Object.keys(localJiraComments).length} JIRA tickets)`);
+  }
+
+  // Re-read in case badges were clicked while the request was in flight
+  const reviewers = readStore<ReviewerSeenMap>(REVIEWER_SEEN_STORAGE_KEY);
+  const jiraComments = readStore<JiraCommentsSeenMap>(JIRA_COMMENTS_SEEN_STORAGE_KEY);
+  if (mergeReviewers(reviewers, state.reviewers)) writeStore(REVIEWER_SEEN_STORAGE_KEY, reviewers);
+  if (mergeNewest(jiraComments, state.jiraComments)) writeStore(JIRA_COMMENTS_SEEN_STORAGE_KEY, jiraComments);
+
+  return state;
+};
+
+/**
+ * Forget server read-state for the current member (one PR, or everything) - used by debug tools
+ */
+export const clearServerNotificationSeen = async (prKey?: string): Promise<void> => {
+  const url = prKey ? `/api/notifications/seen?prKey=${encodeURIComponent(prKey)}` : '/api/notifications/seen';
+  const response = await auditFetch(url, { method: 'DELETE' });
+  if (!response.ok) {
+    console.warn(`Failed to clear server notification read-state: ${response.status}`);
+  }
+};
@@ -1,8 +1,11 @@
 /**
  * Reviewer Notification System
  * Tracks when user last clicked on reviewer badges to show notification dots for new activity
+ * (synced to the server per team member - see notificationSync.ts)
  */
 
+import { REVIEWER_SEEN_STORAGE_KEY, queueNotificationSeenUpdate } from './notificationSync';
+
 interface ReviewerTimestamps {
   [username: string]: number;
 }
@@ -11,7 +14,7 @@ interface NotificationData {
   [prKey: string]: ReviewerTimestamps;
 }
 
-const STORAGE_KEY = 'reviewer-last-clicked';
+const STORAGE_KEY = REVIEWER_SEEN_STORAGE_KEY;
 const CLEANUP_DAYS = 30; // Clean up data older than 30 days
 
 /**
@@ -59,18 +62,19 @@ export const addMissingReviewerTimestamps = (repoName: string, prNumber: number,
     return;
   }
 
-  let changed = false;
+  const added: ReviewerTimestamps = {};
   const now = Date.now();
   reviewers.forEach((username) => {
     if (username && !(username in prData)) {
       prData[username] = now;
-      changed = true;
+      added[username] = now;
     }
   });
 
-  if (changed) {
+  if (Object.keys(added).length > 0) {
     data[prKey] = prData;
     saveNotificationData(data);
+    queueNotificationSeenUpdate({ reviewers: { [prKey]: added } });
   }
 };
 
@@ -96,6 +100,7 @@ export const updateLastClickedTime = (repoName: string, prNumber: number, userna
   
   data[prKey][username] = Date.now();
   saveNotificationData(data);
+  queueNotificationSeenUpdate({ reviewers: { [prKey]: { [username]: data[prKey][username] } } });
 };
 
 /**
@@ -121,6 +126,7 @@ export const initializeReviewerTimestamps = (repoName: string, prNumber: number,
     });
     
     saveNotificationData(data);
+    queueNotificationSeenUpdate({ reviewers: { [prKey]: data[prKey] } });
   } else {
     console.log(`🔔 PR ${prKey} already initialized, skipping timestamp initialization`);
   }
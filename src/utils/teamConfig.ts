@@ -0,0 +1,70 @@
+import type { TeamConfig } from '../types/settings';
+
+/**
+ * Client-side fallback for the team configuration.
+ * Mirrors DEFAULT_TEAM_CONFIG in server/index.js so the UI renders sensibly
+ * before /api/team/config has loaded (or if the server is unreachable).
+ */
+export const DEFAULT_TEAM_CONFIG: TeamConfig = {
+  teamName: 'OCMUI',
+  github: {
+    repos: ['RedHatInsights/uhc-portal']
+  },
+  jira: {
+    instanceUrl: 'https://issues.redhat.com',
+    projectKey: 'OCMUI',
+    attributionComments: false,
+    customFields: {
+      targetEnd: 'customfield_12313942',
+      marketingImpactNotes: 'customfield_12319289',
+      blockedReason: 'customfield_12316544',
+      parentLink: 'customfield_12313140',
+      featureLink: 'customfield_12318341',
+      sprint: 'customfield_12310940',
+      storyPoints: 'customfield_12310243'
+    }
+  },
+  unleash: {
+    flagPrefix: 'ocmui-'
+  }
+};
+
+// Build a browse URL for a JIRA key on the configured instance
+export const getJiraBrowseUrl = (config: TeamConfig, jiraKey: string): string => {
+  return `${config.jira.instanceUrl.replace(/\/+$/, '')}/browse/${jiraKey}`;
+};
+
+// GitHub search qualifier scoping a query to all configured repos (multiple repo: qualifiers are OR'd)
+export const getRepoSearchQualifier = (repos: string[]): string => {
+  return repos.map(r => `repo:${r}`).join(' ');
+};
+
+// Short display name for a repo ("RedHatInsights/uhc-portal" -> "uhc-portal")
+export const getRepoShortName = (repoName: string): string => {
+  return repoName.split('/').pop() || repoName;
+};
+
+/**
+ * Parse a Quick Find PR reference against the configured repos.
+ * Accepts "1234", "#1234", "repo#1234" (short name of a configured repo) and "owner/repo#1234".
+ * A bare number resolves to the first configured repo. Returns null if the input can't be resolved.
+ */
+export const parsePRReference = (input: string, repos: string[]): { repoName: string; prNumber: number } | null => {
+  const match = input.trim().match(/^(?:([\w.-]+(?:\/[\w.-]+)?)#|#)?(\d+)$/);
+  if (!match) return null;
+
+  const [, repoPart, numberPart] = match;
+  const prNumber = parseInt(numberPart, 10);
+  if (!prNumber) return null;
+
+  if (!repoPart) {
+    return repos.length > 0 ? { repoName: repos[0], prNumber } : null;
+  }
+
+  const lower = repoPart.toLowerCase();
+  const configured = repos.find(r => r.toLowerCase() === lower || getRepoShortName(r).toLowerCase() === lower);
+  if (configured) return { repoName: configured, prNumber };
+
+  // Fully-qualified repos outside the configured list are still allowed
+  return repoPart.includes('/') ? { repoName: repoPart, prNumber } : null;
+};